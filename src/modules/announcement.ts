@@ -0,0 +1,126 @@
+// Version: 1.0 - Upcoming temporary task banner with per-user acknowledgement
+// Announcement Module - Pre-notice for announced temporary tasks
+// Handles: Loading unacknowledged upcoming tasks, banner rendering, acknowledgement
+
+import { AuthService } from '@services/auth.service';
+import { KBDService } from '@services/kbd.service';
+import { BusinessDateService } from '@services/business-date.service';
+import { TimeScheduler } from '@modules/time-scheduler';
+import type { Task } from '@/types/models';
+
+// Conditionally import TimeControlModule only in development
+let TimeControlModule: typeof import('@modules/time-control').TimeControlModule | null = null;
+if (import.meta.env.DEV) {
+  import('@modules/time-control').then(m => {
+    TimeControlModule = m.TimeControlModule;
+  });
+}
+
+export class AnnouncementModule {
+  // Unacknowledged upcoming tasks, first one is shown
+  private static pending: Task[] = [];
+
+  /**
+   * Wire acknowledge button and load announcements
+   */
+  static async initialize(): Promise<void> {
+    const ackBtn = document.getElementById('announcementAckBtn');
+    ackBtn?.addEventListener('click', () => this.acknowledgeCurrent());
+
+    await this.refresh();
+  }
+
+  /**
+   * Reload upcoming announcements (on start and after task pool changes)
+   */
+  static async refresh(): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return;
+
+    try {
+      const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : null;
+      this.pending = await KBDService.getUpcomingAnnouncements(
+        currentUser.restaurant_id,
+        currentUser.id,
+        TimeScheduler.getSlotConfigs(),
+        devTime
+      );
+    } catch (error) {
+      // Banner is informational, keep the current state on failure
+    }
+
+    this.render();
+  }
+
+  /**
+   * Show the first pending announcement, or hide the banner
+   */
+  private static render(): void {
+    const banner = document.getElementById('announcementBanner');
+    if (!banner) return;
+
+    const task = this.pending[0];
+    if (!task) {
+      banner.style.display = 'none';
+      return;
+    }
+
+    const titleEl = document.getElementById('announcementTitle');
+    const descriptionEl = document.getElementById('announcementDescription');
+    const whenEl = document.getElementById('announcementWhen');
+    const countEl = document.getElementById('announcementCount');
+
+    if (titleEl) titleEl.textContent = task.task_name;
+    if (descriptionEl) descriptionEl.textContent = task.task_description || '';
+    if (whenEl) whenEl.textContent = this.getRunLabel(task);
+    if (countEl) countEl.textContent = this.pending.length > 1 ? `1/${this.pending.length}` : '';
+
+    banner.style.display = 'block';
+  }
+
+  /**
+   * When the task runs, e.g. "明天 午市开店" or "12-24 晚市闭店"
+   */
+  private static getRunLabel(task: Task): string {
+    const date = task.execute_date || '';
+    const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : undefined;
+    const today = BusinessDateService.getBusinessDate(devTime);
+
+    const dayLabel = date === today
+      ? '今天'
+      : date === BusinessDateService.addDays(today, 1)
+        ? '明天'
+        : date.slice(5);
+
+    return `${dayLabel} ${task.execute_slot ? TimeScheduler.getSlotLabel(task.execute_slot) : ''}`.trim();
+  }
+
+  /**
+   * Acknowledge the shown announcement and move to the next one
+   */
+  private static async acknowledgeCurrent(): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    const task = this.pending[0];
+    if (!currentUser || !task) return;
+
+    const ackBtn = document.getElementById('announcementAckBtn') as HTMLButtonElement | null;
+    if (ackBtn) ackBtn.disabled = true;
+
+    const result = await KBDService.acknowledgeAnnouncement(task.id, currentUser.id, currentUser.restaurant_id);
+
+    if (ackBtn) ackBtn.disabled = false;
+
+    if (!result.success) {
+      alert('确认失败，请重试');
+      return;
+    }
+
+    this.pending = this.pending.slice(1);
+    this.render();
+  }
+}
+
+// Export to window for backward compatibility
+if (typeof window !== 'undefined') {
+  window.AnnouncementModule = AnnouncementModule;
+}
@@ -0,0 +1,164 @@
+// Version: 1.0 - Structured answer input for tasks with an answer_schema
+// Answer Input Module - Renders the answer form in the check-in panel and reads the typed answer
+// Handles: Number with unit, single/multiple choice, yes/no, checklist
+
+import type { AnswerSchema, TaskAnswer } from '@/types/models';
+
+export class AnswerInputModule {
+  // Schema of the rendered form (null = no answer form)
+  private static schema: AnswerSchema | null = null;
+  // Chosen options / yes-no value / checked items, by option text
+  private static selected: Set<string> = new Set();
+
+  /**
+   * Render the answer form for a schema (replaces any previous form)
+   */
+  static render(schema: AnswerSchema | null): void {
+    this.schema = schema;
+    this.selected = new Set();
+
+    const form = document.getElementById('answerForm');
+    if (!form) return;
+    form.innerHTML = '';
+    if (!schema) return;
+
+    switch (schema.type) {
+      case 'number': {
+        const row = document.createElement('div');
+        row.className = 'answer-number';
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.id = 'answerNumber';
+        input.inputMode = schema.integer ? 'numeric' : 'decimal';
+        if (schema.min !== undefined) input.min = String(schema.min);
+        if (schema.max !== undefined) input.max = String(schema.max);
+        input.step = schema.integer ? '1' : 'any';
+        input.placeholder = this.getRangeHint(schema);
+        row.appendChild(input);
+        if (schema.unit) {
+          const unit = document.createElement('span');
+          unit.className = 'answer-unit';
+          unit.textContent = schema.unit;
+          row.appendChild(unit);
+        }
+        form.appendChild(row);
+        break;
+      }
+      case 'single_choice':
+      case 'multi_choice':
+        form.appendChild(this.createOptions(schema.options, schema.type === 'multi_choice'));
+        break;
+      case 'yes_no':
+        form.appendChild(this.createOptions(['是', '否'], false));
+        break;
+      case 'checklist': {
+        const list = document.createElement('div');
+        list.className = 'answer-checklist';
+        schema.items.forEach(item => {
+          const label = document.createElement('label');
+          label.className = 'answer-checklist-item';
+          const checkbox = document.createElement('input');
+          checkbox.type = 'checkbox';
+          checkbox.addEventListener('change', () => {
+            if (checkbox.checked) this.selected.add(item);
+            else this.selected.delete(item);
+          });
+          const text = document.createElement('span');
+          text.textContent = item;
+          label.appendChild(checkbox);
+          label.appendChild(text);
+          list.appendChild(label);
+        });
+        form.appendChild(list);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Clear the entered answer (keeps the form for the same schema)
+   */
+  static reset(): void {
+    this.render(this.schema);
+  }
+
+  /**
+   * Read the entered answer
+   * @returns Typed answer, or null when nothing has been entered
+   */
+  static getAnswer(): TaskAnswer | null {
+    const schema = this.schema;
+    if (!schema) return null;
+
+    switch (schema.type) {
+      case 'number': {
+        const input = document.getElementById('answerNumber') as HTMLInputElement | null;
+        const raw = input?.value.trim();
+        if (!raw) return null;
+        return { type: 'number', value: Number(raw), unit: schema.unit ?? null };
+      }
+      case 'single_choice': {
+        const [value] = [...this.selected];
+        return value ? { type: 'single_choice', value } : null;
+      }
+      case 'multi_choice':
+        return this.selected.size > 0
+          ? { type: 'multi_choice', value: schema.options.filter(option => this.selected.has(option)) }
+          : null;
+      case 'yes_no':
+        return this.selected.size > 0 ? { type: 'yes_no', value: this.selected.has('是') } : null;
+      case 'checklist':
+        // Unticked items are part of the answer, so an empty list is still an answer
+        return {
+          type: 'checklist',
+          value: schema.items.filter(item => this.selected.has(item)),
+          unchecked: schema.items.filter(item => !this.selected.has(item))
+        };
+    }
+  }
+
+  /**
+   * Option buttons; single choice deselects the others
+   */
+  private static createOptions(options: string[], multiple: boolean): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'answer-options';
+
+    options.forEach(option => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'answer-option';
+      btn.textContent = option;
+      btn.addEventListener('click', () => {
+        if (this.selected.has(option)) {
+          this.selected.delete(option);
+        } else {
+          if (!multiple) this.selected.clear();
+          this.selected.add(option);
+        }
+        group.querySelectorAll<HTMLButtonElement>('.answer-option').forEach(el => {
+          el.classList.toggle('selected', this.selected.has(el.textContent ?? ''));
+        });
+      });
+      group.appendChild(btn);
+    });
+
+    return group;
+  }
+
+  /**
+   * Placeholder like "0-50 单"
+   */
+  private static getRangeHint(schema: Extract<AnswerSchema, { type: 'number' }>): string {
+    const unit = schema.unit ? ` ${schema.unit}` : '';
+    if (schema.min !== undefined && schema.max !== undefined) return `${schema.min}-${schema.max}${unit}`;
+    if (schema.min !== undefined) return `≥ ${schema.min}${unit}`;
+    if (schema.max !== undefined) return `≤ ${schema.max}${unit}`;
+    return `请输入数字${unit}`;
+  }
+}
+
+// Export to window for backward compatibility
+if (typeof window !== 'undefined') {
+  window.AnswerInputModule = AnswerInputModule;
+}
@@ -1,4 +1,4 @@
-// Version: 6.8 - Production mode: hide dev time control, lock interactions when panel open
+// Version: 8.3 - Realtime check-ins for other dates/slots and make-ups leave the map alone
 // App Module - Main application coordination and initialization
 // Handles: Application initialization, time slot detection, state management, coordination between modules
 
@@ -6,14 +6,23 @@ import { supabaseClient } from '@services/supabase';
 import { AuthService } from '@services/auth.service';
 import { KBDService } from '@services/kbd.service';
 import { CacheService } from '@services/cache.service';
+import { SubmissionQueueService } from '@services/submission-queue.service';
+import { BusinessDateService } from '@services/business-date.service';
 import { RealtimeService } from '@services/realtime.service';
+import type { TaskPoolChange } from '@services/realtime.service';
 import { AvatarCacheService } from '@services/avatar-cache.service';
 import { EdgeIndicatorsModule } from '@modules/edge-indicators';
 import { MapModule } from '@modules/map';
 import { CheckInModule } from '@modules/checkin';
 import { UIModule } from '@modules/ui';
 import { TimeScheduler } from '@modules/time-scheduler';
-import type { Employee, Restaurant, Task, SlotType, TimeSlotConfig, CheckInRecord } from '@/types/models';
+import { MakeUpModule } from '@modules/makeup';
+import { TaskCalendarModule } from '@modules/task-calendar';
+import { AnnouncementModule } from '@modules/announcement';
+import { UploadProgressModule } from '@modules/upload-progress';
+import { isSlotComplete, getChecklistProgress } from '@/utils/checklist';
+import type { ChecklistTaskRef } from '@/utils/checklist';
+import type { Employee, Restaurant, Task, SlotType, TimeSlotConfig, CheckInRecord, StoreClosure, PendingCheckIn } from '@/types/models';
 
 // Conditionally import TimeControlModule only in development
 // In production, this import is tree-shaken away
@@ -24,6 +33,9 @@ if (import.meta.env.DEV) {
   });
 }
 
+// Wait for bulk task pool edits to settle before re-resolving the current task
+const TASK_POOL_REFRESH_DELAY_MS = 1000;
+
 // Debug logging only in development mode
 const debugLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) {
@@ -38,12 +50,16 @@ export class AppModule {
   static currentUser: Employee | null = null;
   static currentSlotType: SlotType | null = null;
   static currentTask: Task | null = null;
+  // Primary task plus attached required/bonus tasks for the current slot
+  static currentChecklist: Task[] = [];
   static allRestaurants: Restaurant[] = [];
   static isInTimeWindow: boolean = false;
   static testMode: boolean = false;
   static testSlotType: SlotType | null = null;
   // Cached brand_id to avoid redundant API calls
   private static cachedBrandId: number | null = null;
+  // Pending re-resolve after task pool changes
+  private static taskPoolRefreshTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Initialize application
@@ -60,6 +76,9 @@ export class AppModule {
     const cacheStart = performance.now();
     await CacheService.init();
 
+    // 1.5 Load check-ins queued on this device (retried in the background)
+    await SubmissionQueueService.init();
+
     // 2. Check authentication
     this.currentUser = AuthService.getCurrentUser();
 
@@ -72,6 +91,9 @@ export class AppModule {
     // 3. Initialize check-in module
     CheckInModule.initialize();
 
+    // 3.5 Configure business date from brand settings (falls back to defaults on failure)
+    await this.loadBrandSettings();
+
     // 4. Load time configuration (cache-first)
     const timeConfigStart = performance.now();
     const timeConfig = await this.loadTimeSlotConfig();
@@ -95,7 +117,11 @@ export class AppModule {
 
     // 8. Set up UI event listeners
     UIModule.setupLogoutButton();
+    UIModule.setupChecklistSkipButton();
     this.setupRecenterButton();
+    MakeUpModule.initialize();
+    TaskCalendarModule.initialize();
+    UploadProgressModule.initialize();
 
     // 9. Initialize time control module (dev mode only)
     if (import.meta.env.DEV && TimeControlModule) {
@@ -106,8 +132,32 @@ export class AppModule {
     const realtimeStart = performance.now();
     await RealtimeService.init();
     RealtimeService.onNewCheckIn((record) => {
-      this.handleNewCheckIn(record);
+      this.handleNewCheckIn(record).catch(err => {
+        debugLog('[APP] handleNewCheckIn failed:', err);
+      });
+    });
+    RealtimeService.onTaskPoolChange((change) => {
+      this.handleTaskPoolChange(change).catch(err => {
+        debugLog('[APP] handleTaskPoolChange failed:', err);
+      });
+    });
+
+    // 10.5 Offline submission queue: badge, queued avatar state, records sent later
+    UIModule.setupPendingBadge(() => {
+      this.handlePendingBadgeClick().catch(err => {
+        debugLog('[APP] handlePendingBadgeClick failed:', err);
+      });
     });
+    SubmissionQueueService.onChange(() => this.handleQueueChange());
+    SubmissionQueueService.onSubmitted((pending) => {
+      // Realtime may miss records sent while reconnecting; handleNewCheckIn skips duplicates by id
+      if (this.getQueuedTaskIds([pending]).length > 0) {
+        this.handleNewCheckIn({ ...pending.record, id: pending.id, media_urls: pending.uploaded_urls } as CheckInRecord).catch(err => {
+          debugLog('[APP] handleNewCheckIn failed:', err);
+        });
+      }
+    });
+    this.handleQueueChange();
 
     // 11. Background tasks (non-blocking)
     this.backgroundInit();
@@ -153,6 +203,20 @@ export class AppModule {
     return this.cachedBrandId;
   }
 
+  /**
+   * Load brand settings and configure BusinessDateService
+   * All date-keyed queries, cache keys and seeds depend on this
+   */
+  private static async loadBrandSettings(): Promise<void> {
+    try {
+      const brandId = await this.getBrandId();
+      const brand = await KBDService.getBrand(brandId);
+      BusinessDateService.configure(brand);
+    } catch (error) {
+      BusinessDateService.configure(null);
+    }
+  }
+
   /**
    * Detect current time slot based on time window configuration
    */
@@ -166,15 +230,12 @@ export class AppModule {
         return;
       }
 
-      // Get user's brand_id (cached)
-      const brandId = await this.getBrandId();
-
       // Get current time slot, using dev time if available (dev mode only)
       const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : null;
       if (devTime) {
       }
 
-      const detectedSlot = await KBDService.getCurrentTimeSlot(brandId, devTime);
+      const detectedSlot = await KBDService.getCurrentTimeSlot(this.currentUser!.restaurant_id, devTime);
 
       if (detectedSlot) {
         this.currentSlotType = detectedSlot;
@@ -193,8 +254,12 @@ export class AppModule {
   static async loadRestaurantsAndInitMap(): Promise<void> {
 
     try {
+      // Use dev time if available for cross-day testing (dev mode only)
+      const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : null;
+
       // Determine which slot to fetch data for
-      let slotForFetch: SlotType;
+      let slotForFetch: SlotType | null;
+      let dateForFetch: string | null = null;
       let displayMode = false;
 
       if (this.isInTimeWindow && this.currentSlotType) {
@@ -202,14 +267,15 @@ export class AppModule {
         slotForFetch = this.currentSlotType;
         displayMode = false;
       } else {
-        // Outside check-in window: fetch previous slot data, display mode
-        slotForFetch = KBDService.getPreviousTimeSlot();
+        // Outside check-in window: fetch previous slot data (possibly yesterday's), display mode
+        const previous = KBDService.getPreviousTimeSlot(TimeScheduler.getSlotConfigs(), devTime);
+        slotForFetch = previous?.slotType ?? null;
+        dateForFetch = previous?.date ?? null;
         displayMode = true;
       }
 
-      // Use dev time if available for cross-day testing (dev mode only)
-      const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : null;
-      this.allRestaurants = await KBDService.getRestaurantsWithStatus(slotForFetch, displayMode, devTime);
+      this.allRestaurants = await KBDService.getRestaurantsWithStatus(slotForFetch, displayMode, devTime, dateForFetch);
+      this.markQueuedRestaurant();
 
 
       // Initialize map
@@ -242,13 +308,13 @@ export class AppModule {
 
       // Update UI
       UIModule.updateStatusBar(this.currentSlotType);
-      UIModule.updateCheckInPanel(this.isCurrentUserCheckedIn(), this.currentTask);
+      this.updateCheckInPanel();
 
       // Hide loading overlay
       UIModule.hideLoading();
 
       // Apply blur and show panel only if in time window and not checked in
-      if (this.isInTimeWindow && !this.isCurrentUserCheckedIn()) {
+      if (this.isInTimeWindow && !this.isCurrentUserCheckedIn() && !this.getCurrentUserClosure()) {
         MapModule.setBlur(true);
 
         setTimeout(() => {
@@ -274,8 +340,14 @@ export class AppModule {
     if (!this.isInTimeWindow) {
 
       // Fetch previous slot data in display mode
-      const previousSlot = KBDService.getPreviousTimeSlot();
-      this.allRestaurants = await KBDService.getRestaurantsWithStatus(previousSlot, true, devTime);
+      const previous = KBDService.getPreviousTimeSlot(TimeScheduler.getSlotConfigs(), devTime);
+      this.allRestaurants = await KBDService.getRestaurantsWithStatus(
+        previous?.slotType ?? null,
+        true,
+        devTime,
+        previous?.date ?? null
+      );
+      this.markQueuedRestaurant();
 
       MapModule.setBlur(false);
       UIModule.hideCheckInPanel();
@@ -290,6 +362,7 @@ export class AppModule {
 
       // Reload data for new slot in normal mode
       this.allRestaurants = await KBDService.getRestaurantsWithStatus(this.currentSlotType!, false, devTime);
+      this.markQueuedRestaurant();
 
       // Load task for current slot
       await this.loadCurrentTask();
@@ -300,7 +373,7 @@ export class AppModule {
       // Update edge indicators
       EdgeIndicatorsModule.updateRestaurantData(this.allRestaurants);
 
-      if (!this.isCurrentUserCheckedIn()) {
+      if (!this.isCurrentUserCheckedIn() && !this.getCurrentUserClosure()) {
         MapModule.setBlur(true);
         UIModule.showCheckInPanel();
       } else {
@@ -309,7 +382,7 @@ export class AppModule {
       }
 
       UIModule.updateStatusBar(this.currentSlotType);
-      UIModule.updateCheckInPanel(this.isCurrentUserCheckedIn(), this.currentTask);
+      this.updateCheckInPanel();
     }
   }
 
@@ -328,7 +401,8 @@ export class AppModule {
       if (devTime) {
       }
 
-      this.currentTask = await KBDService.getTodayTask(this.currentUser.restaurant_id, this.currentSlotType!, devTime);
+      this.currentChecklist = await KBDService.getTodayChecklist(this.currentUser.restaurant_id, this.currentSlotType!, devTime);
+      this.currentTask = this.currentChecklist[0] ?? null;
 
       if (this.currentTask) {
 
@@ -354,9 +428,127 @@ export class AppModule {
     const userRestaurant = this.allRestaurants.find(r => r.id === this.currentUser?.restaurant_id);
     const isChecked = userRestaurant?.checked || false;
 
+    // Check-ins still in the offline queue already count for this device
+    if (!isChecked && this.getQueuedTaskIds().length > 0) {
+      return this.currentChecklist.length === 0
+        || getChecklistProgress(this.currentChecklist, this.getSubmittedTaskIds()).complete;
+    }
+
     return isChecked;
   }
 
+  /**
+   * Get checklist tasks the current user's store already submitted for the displayed slot
+   * Includes tasks queued on this device that are not uploaded yet
+   */
+  static getSubmittedTaskIds(): string[] {
+    const userRestaurant = this.allRestaurants.find(r => r.id === this.currentUser?.restaurant_id);
+    return [
+      ...(userRestaurant?.checkIns || []).map(c => c.task_id),
+      ...this.getQueuedTaskIds()
+    ];
+  }
+
+  /**
+   * Get tasks of the current date + slot waiting in the offline queue (make-ups excluded)
+   */
+  private static getQueuedTaskIds(pending: PendingCheckIn[] = SubmissionQueueService.getPending()): string[] {
+    if (!this.currentUser) return [];
+
+    // Refused check-ins do not count, so the panel asks for the task again
+    return pending
+      .filter(p => !p.needs_attention)
+      .map(p => p.record)
+      .filter(r => r.restaurant_id === this.currentUser!.restaurant_id && this.isCurrentSlotRecord(r))
+      .map(r => r.task_id!);
+  }
+
+  /**
+   * Check if a record belongs to today's business date and the open slot (make-ups never do)
+   */
+  private static isCurrentSlotRecord(record: Partial<CheckInRecord>): boolean {
+    if (!this.isInTimeWindow || !this.currentSlotType) return false;
+
+    const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : undefined;
+    return record.check_in_date === BusinessDateService.getBusinessDate(devTime) &&
+      record.slot_type === this.currentSlotType &&
+      !record.is_makeup;
+  }
+
+  /**
+   * Flag the current user's store while its check-in for the slot only exists in the offline queue
+   */
+  private static markQueuedRestaurant(): void {
+    const userRestaurant = this.allRestaurants.find(r => r.id === this.currentUser?.restaurant_id);
+    if (userRestaurant) {
+      userRestaurant.queued = !userRestaurant.checked && this.getQueuedTaskIds().length > 0;
+    }
+  }
+
+  /**
+   * Retry queued check-ins; check-ins the server refused are shown first and can be discarded
+   */
+  private static async handlePendingBadgeClick(): Promise<void> {
+    const rejected = SubmissionQueueService.getPending().filter(p => p.needs_attention);
+    if (rejected.length > 0) {
+      const reasons = rejected
+        .map(p => `• ${p.record.check_in_date} ${p.record.task_name || ''}: ${p.last_error}`)
+        .join('\n');
+      if (confirm(`${rejected.length} 条打卡被服务器拒绝，无法自动提交：\n\n${reasons}\n\n是否删除这些打卡？`)) {
+        await SubmissionQueueService.discardRejected();
+      }
+    }
+
+    await SubmissionQueueService.process(true);
+  }
+
+  /**
+   * Refresh pending badge, queued avatar and check-in panel after the offline queue changed
+   */
+  private static handleQueueChange(): void {
+    const pending = SubmissionQueueService.getPending();
+    UIModule.updatePendingBadge(
+      pending.length,
+      pending.some(p => p.last_error !== null),
+      pending.filter(p => p.needs_attention).length
+    );
+
+    this.markQueuedRestaurant();
+    MapModule.updateAllMarkers(this.allRestaurants);
+    if (!MakeUpModule.getTarget()) {
+      this.updateCheckInPanel();
+    }
+  }
+
+  /**
+   * Check if any checklist task of the current slot (required or bonus) is still open
+   */
+  static hasOpenChecklistTasks(): boolean {
+    const submitted = this.getSubmittedTaskIds();
+    return this.currentChecklist.some(task => !submitted.includes(task.id));
+  }
+
+  /**
+   * Refresh check-in panel for the current slot (checklist, closure, checked state)
+   */
+  static updateCheckInPanel(): void {
+    UIModule.updateCheckInPanel(
+      this.isCurrentUserCheckedIn(),
+      this.currentTask,
+      this.getCurrentUserClosure(),
+      this.currentChecklist,
+      this.getSubmittedTaskIds()
+    );
+  }
+
+  /**
+   * Check if current user's store is closed for the current date + slot (closure calendar)
+   */
+  static getCurrentUserClosure(): StoreClosure | null {
+    const userRestaurant = this.allRestaurants.find(r => r.id === this.currentUser?.restaurant_id);
+    return userRestaurant?.closure ?? null;
+  }
+
   /**
    * Handle time window change (triggered by TimeControlModule)
    */
@@ -399,29 +591,30 @@ export class AppModule {
   }
 
   /**
-   * Load time slot configuration (cache-first)
+   * Load time slot configuration for the user's store (cache-first)
+   * Store-specific windows override the brand defaults
    * @returns Array of time slot configurations
    */
   private static async loadTimeSlotConfig(): Promise<TimeSlotConfig[]> {
     // Get user's brand_id (cached)
     const brandId = await this.getBrandId();
+    const restaurantId = this.currentUser!.restaurant_id;
 
     // Check cache first
-    const cached = await CacheService.getTimeSlotConfig(brandId);
+    const cached = await CacheService.getTimeSlotConfig(brandId, restaurantId);
     if (cached) {
       return cached;
     }
 
     // Cache miss - query database
-    const { data: configs } = await supabaseClient
-      .from('kbd_time_slot_config')
-      .select('*')
-      .eq('brand_id', brandId)
-      .is('restaurant_id', null)
-      .eq('is_active', true);
+    let configList: TimeSlotConfig[] = [];
+    try {
+      configList = await KBDService.getTimeSlotConfigs(restaurantId);
+    } catch (error) {
+      return configList;
+    }
 
-    const configList = (configs || []) as TimeSlotConfig[];
-    await CacheService.setTimeSlotConfig(brandId, configList);
+    await CacheService.setTimeSlotConfig(brandId, restaurantId, configList);
 
     return configList;
   }
@@ -443,13 +636,23 @@ export class AppModule {
    * Handle new check-in from Realtime subscription
    * @param record - Check-in record received via Realtime
    */
-  private static handleNewCheckIn(record: CheckInRecord): void {
+  private static async handleNewCheckIn(record: CheckInRecord): Promise<void> {
     const startTime = performance.now();
     debugLog('[APP] handleNewCheckIn START', {
       restaurant_id: record.restaurant_id,
       employee_id: record.employee_id
     });
 
+    // Make-ups and records of other dates/slots would paint the open slot as checked
+    if (!this.isCurrentSlotRecord(record)) {
+      debugLog('[APP] Ignoring check-in outside the current slot', {
+        check_in_date: record.check_in_date,
+        slot_type: record.slot_type,
+        is_makeup: record.is_makeup
+      });
+      return;
+    }
+
     // Find restaurant in local state
     const findStart = performance.now();
     const restaurant = this.allRestaurants.find(r => r.id === record.restaurant_id);
@@ -460,10 +663,24 @@ export class AppModule {
     });
 
     if (restaurant) {
-      // Update local state
+      // Update local state (checked only once the slot's required checklist tasks are in)
       const updateStart = performance.now();
-      restaurant.checked = true;
-      restaurant.checkInData = record;
+      const records = restaurant.checkIns || [];
+      if (!records.some(c => c.id === record.id)) {
+        restaurant.checkIns = [...records, record];
+      }
+
+      let refs: ChecklistTaskRef[] = [];
+      try {
+        refs = await KBDService.getChecklistTaskRefs(restaurant.checkIns!.map(c => c.task_id));
+      } catch (error) {
+        // Without task info the record counts as a primary check-in
+      }
+
+      restaurant.checked = isSlotComplete(restaurant.checkIns!, refs);
+      if (!refs.find(ref => ref.id === record.task_id)?.parent_task_id) {
+        restaurant.checkInData = record;
+      }
       debugLog(`[APP] State update: ${(performance.now() - updateStart).toFixed(2)}ms`);
 
       // Update all map markers
@@ -485,13 +702,62 @@ export class AppModule {
     debugLog(`[APP] handleNewCheckIn COMPLETE: ${totalDuration.toFixed(2)}ms`);
   }
 
+  /**
+   * Handle kbd_task_pool change from Realtime subscription
+   * Evicts affected cached daily tasks right away, then re-resolves the current task once edits settle
+   * @param change - Changed row (before and/or after)
+   */
+  private static async handleTaskPoolChange(change: TaskPoolChange): Promise<void> {
+    debugLog('[APP] handleTaskPoolChange', change.eventType, change.task?.id ?? change.previous?.id);
+
+    // Rows without scope info (e.g. DELETE payloads) evict every entry
+    const rows = [change.task, change.previous].filter((row): row is Partial<Task> => row !== null);
+    for (const row of rows.length > 0 ? rows : [{}]) {
+      await CacheService.evictDailyTasks(row);
+    }
+
+    if (this.taskPoolRefreshTimer) {
+      clearTimeout(this.taskPoolRefreshTimer);
+    }
+    this.taskPoolRefreshTimer = setTimeout(() => {
+      this.taskPoolRefreshTimer = null;
+      this.refreshCurrentTask();
+    }, TASK_POOL_REFRESH_DELAY_MS);
+  }
+
+  /**
+   * Re-resolve the current slot's checklist, refresh the check-in panel and the announcement banner
+   * A make-up in progress keeps its past task
+   */
+  private static async refreshCurrentTask(): Promise<void> {
+    // New or withdrawn announcements show up in the banner right away
+    AnnouncementModule.refresh();
+
+    if (!this.isInTimeWindow || !this.currentSlotType) return;
+
+    await this.loadCurrentTask();
+    if (MakeUpModule.getTarget()) return;
+
+    // Media picked for a task that is gone no longer belongs to anything
+    const selectedTask = UIModule.getSelectedTask();
+    if (selectedTask && !this.currentChecklist.some(t => t.id === selectedTask.id)) {
+      CheckInModule.reset();
+    }
+
+    this.updateCheckInPanel();
+  }
+
   /**
    * Background initialization tasks (non-blocking)
    */
   private static backgroundInit(): void {
+    // Upcoming temporary task banner
+    AnnouncementModule.initialize().catch(err => {
+    });
+
     // Preload tasks for all slots
     if (this.currentUser?.restaurant_id) {
-      KBDService.preloadTasksForAllSlots(this.currentUser.restaurant_id).catch(err => {
+      KBDService.preloadTasksForAllSlots(this.currentUser.restaurant_id, TimeScheduler.getSlotTypes()).catch(err => {
       });
     }
 
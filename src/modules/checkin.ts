@@ -1,11 +1,28 @@
-// Version: 7.2 - Added 10MB video size limit and better error messages for uploads
+// Version: 9.5 - Geofence applies to make-ups too
 // Check-in Module - Media recording and submission
 // Handles: Image upload (multiple), voice recording, video upload (file picker), check-in submission
 
 import { KBDService } from '@services/kbd.service';
+import { SubmissionQueueService } from '@services/submission-queue.service';
 import { AuthService } from '@services/auth.service';
+import { BusinessDateService } from '@services/business-date.service';
 import { MapModule } from '@modules/map';
 import { UIModule } from '@modules/ui';
+import { TimeScheduler } from '@modules/time-scheduler';
+import { MakeUpModule } from '@modules/makeup';
+import { UploadProgressModule } from '@modules/upload-progress';
+import { AnswerInputModule } from '@modules/answer-input';
+import { evaluatePunctuality } from '@/utils/time-window';
+import { canCompressVideo, compressVideo, getVideoDuration } from '@/utils/video-compress';
+import { readCaptureTime, isCapturedInWindow, isCapturedForMakeUp } from '@/utils/capture-time';
+import { getDevicePosition, wgs84ToGcj02, distanceMeters, isOutOfRange } from '@/utils/geo';
+import { drawWatermark } from '@/utils/watermark';
+import { createVoiceRecorder, getAudioExtension, createLevelMeter, computeWaveform, drawWaveform } from '@/utils/audio-recording';
+import type { LevelMeter } from '@/utils/audio-recording';
+import { getTaskInputs, validateTaskInputs } from '@/utils/task-inputs';
+import { validateAnswer, formatAnswer } from '@/utils/answers';
+import type { ImageWatermark } from '@/utils/watermark';
+import type { CaptureSource, CaptureStatus, CheckInRecord, InputType, Task, TaskAnswer } from '@/types/models';
 
 // Conditionally import TimeControlModule only in development
 let TimeControlModule: typeof import('@modules/time-control').TimeControlModule | null = null;
@@ -19,12 +36,47 @@ if (import.meta.env.DEV) {
 // Compression constants
 const IMAGE_MAX_SIZE_KB = 200;
 const VIDEO_MAX_SIZE_BYTES = 10 * 1024 * 1024; // 10MB limit for video (reasonable for mobile upload)
+const VIDEO_MAX_DURATION_SEC = 30; // Longer clips are trimmed when re-encoded
+
+// Voice duration limits when the task does not set min/max_duration_sec
+const DEFAULT_VOICE_MIN_SEC = 3;
+const DEFAULT_VOICE_MAX_SEC = 60;
+const VOICE_TICK_MS = 100;
+const WAVEFORM_BARS = 60;
+
+// Location timeouts: waiting longer is only worth it when the brand requires the geofence
+const LOCATION_TIMEOUT_REQUIRED_MS = 10000;
+const LOCATION_TIMEOUT_MS = 5000;
+
+// Geofence result saved with the record
+type LocationFields = Pick<CheckInRecord, 'distance_m' | 'location_accuracy_m' | 'is_out_of_range'>;
+
+// Capture-time check of one selected file (read before compression strips the metadata)
+interface MediaCaptureCheck {
+  capturedAt: Date | null;
+  source: CaptureSource | null;
+  status: CaptureStatus;
+}
 
 export class CheckInModule {
   // State
-  static currentMediaFiles: File[] = [];  // Changed to array for multiple images
+  static currentMediaFiles: File[] = [];  // Selected photos (voice/video are kept apart, composite tasks take several)
+  static currentCaptureChecks: MediaCaptureCheck[] = [];  // Same order as currentMediaFiles
+  static voiceFile: File | null = null;
+  static videoFile: File | null = null;
+  static videoCaptureCheck: MediaCaptureCheck | null = null;
   static mediaRecorder: MediaRecorder | null = null;
   static audioChunks: Blob[] = [];
+  // Voice recording: time recorded so far (excluding pauses) and the running segment's start
+  private static voiceRecordedMs: number = 0;
+  private static voiceSegmentStart: number | null = null;
+  private static voiceLimits: { minSec: number; maxSec: number } = { minSec: DEFAULT_VOICE_MIN_SEC, maxSec: DEFAULT_VOICE_MAX_SEC };
+  private static voiceTimer: ReturnType<typeof setInterval> | null = null;
+  private static levelMeter: LevelMeter | null = null;
+  // Forecast looked up for the shown actual-figure task (reused on submit)
+  private static forecastLookup: { taskId: string; date: string; record: CheckInRecord } | null = null;
+  // Re-encoding of the picked video; aborted when another file is picked, the task changes or the panel closes
+  private static videoCompression: AbortController | null = null;
   static videoStream: MediaStream | null = null;
   static isVideoRecording: boolean = false;
   static videoChunks: Blob[] = [];  // Track video chunks for size monitoring
@@ -33,8 +85,13 @@ export class CheckInModule {
   /**
    * Compress image to target size (200KB default)
    * Uses canvas to resize and reduce JPEG quality
+   * With a watermark, it is drawn on every redraw so the output never exists without it
    */
-  static async compressImage(file: File, maxSizeKB: number = IMAGE_MAX_SIZE_KB): Promise<File> {
+  static async compressImage(
+    file: File,
+    maxSizeKB: number = IMAGE_MAX_SIZE_KB,
+    watermark: ImageWatermark | null = null
+  ): Promise<File> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       const reader = new FileReader();
@@ -67,6 +124,7 @@ export class CheckInModule {
           canvas.width = width;
           canvas.height = height;
           ctx.drawImage(img, 0, 0, width, height);
+          if (watermark) drawWatermark(ctx, width, height, watermark);
 
           // Try different quality levels to get under maxSizeKB
           let quality = 0.9;
@@ -101,6 +159,7 @@ export class CheckInModule {
                     canvas.width = width;
                     canvas.height = height;
                     ctx.drawImage(img, 0, 0, width, height);
+                    if (watermark) drawWatermark(ctx, width, height, watermark);
                   }
 
                   tryCompress();
@@ -168,20 +227,48 @@ export class CheckInModule {
         submitBtn.textContent = '压缩中...';
       }
 
+      const policy = await this.getCaptureTimePolicy();
+      const watermark = await this.getWatermark();
+      const rejected: MediaCaptureCheck[] = [];
+      let failed = 0;
+
       // Compress and add new files to existing array
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         if (file) {
+          // Capture time first: compression drops EXIF
+          const check = await this.checkCaptureTime(file);
+          if (check.status === 'outside_window' && policy === 'reject') {
+            rejected.push(check);
+            continue;
+          }
+
           try {
-            const compressedFile = await this.compressImage(file);
+            const compressedFile = await this.compressImage(file, IMAGE_MAX_SIZE_KB, watermark);
             this.currentMediaFiles.push(compressedFile);
           } catch (error) {
-            // Fallback to original file if compression fails
+            // Fallback to original file if compression fails, unless the brand requires the watermark
+            if (watermark) {
+              failed++;
+              continue;
+            }
             this.currentMediaFiles.push(file);
           }
+          this.currentCaptureChecks.push(check);
         }
       }
 
+      if (rejected.length > 0) {
+        alert(`${rejected.length} 张照片不是本时段拍摄（${this.formatCaptureTime(rejected[0]!.capturedAt)}），请现场拍摄`);
+      }
+      if (failed > 0) {
+        alert(`${failed} 张照片处理失败，请重新拍摄`);
+      }
+      if (this.currentMediaFiles.length === 0) {
+        if (submitBtn) submitBtn.textContent = '✓ 提交打卡';
+        return;
+      }
+
       // Update preview grid
       this.updateImagePreviewGrid();
 
@@ -254,6 +341,7 @@ export class CheckInModule {
    */
   static removeImage(index: number): void {
     this.currentMediaFiles.splice(index, 1);
+    this.currentCaptureChecks.splice(index, 1);
 
     if (this.currentMediaFiles.length === 0) {
       // Show placeholder again
@@ -272,80 +360,284 @@ export class CheckInModule {
 
   /**
    * Start voice recording
+   * Auto-stops at the task's max duration; recordings shorter than the minimum are discarded
    */
   static async startRecording(event: Event): Promise<void> {
     event.preventDefault();
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') return;
+
+    const task = this.getActiveTask();
+    this.voiceLimits = {
+      minSec: task?.min_duration_sec ?? DEFAULT_VOICE_MIN_SEC,
+      maxSec: task?.max_duration_sec ?? DEFAULT_VOICE_MAX_SEC
+    };
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      this.mediaRecorder = new MediaRecorder(stream);
+      const recorder = createVoiceRecorder(stream);
+      this.mediaRecorder = recorder;
       this.audioChunks = [];
+      this.voiceFile = null;
 
-      this.mediaRecorder.ondataavailable = (e) => {
-        this.audioChunks.push(e.data);
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.audioChunks.push(e.data);
       };
 
-      this.mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
-        const audioFile = new File([audioBlob], `voice_${Date.now()}.webm`, { type: 'audio/webm' });
-        this.currentMediaFiles = [audioFile];
-
-        // Show audio player
-        const audioPlayer = document.getElementById('audioPlayer') as HTMLAudioElement;
-        if (audioPlayer) {
-          audioPlayer.src = URL.createObjectURL(audioBlob);
-          audioPlayer.style.display = 'block';
-        }
-
-        // Enable submit button
-        const submitBtn = document.getElementById('submitVoiceBtn') as HTMLButtonElement;
-        if (submitBtn) {
-          submitBtn.disabled = false;
-          submitBtn.style.display = 'block';
-        }
-
+      recorder.onstop = () => {
+        this.finishRecording(recorder.mimeType || 'audio/webm');
       };
 
-      this.mediaRecorder.start();
+      try {
+        this.levelMeter = createLevelMeter(stream);
+      } catch (error) {
+        // No Web Audio: record without the meter
+        this.levelMeter = null;
+      }
 
-      // Update UI buttons
-      const startBtn = document.getElementById('startRecordBtn') as HTMLButtonElement;
-      const stopBtn = document.getElementById('stopRecordBtn') as HTMLButtonElement;
+      recorder.start(1000);
+      this.voiceRecordedMs = 0;
+      this.voiceSegmentStart = performance.now();
+      this.voiceTimer = setInterval(() => this.updateRecordingStatus(), VOICE_TICK_MS);
 
-      if (startBtn) startBtn.style.display = 'none';
-      if (stopBtn) stopBtn.style.display = 'inline-block';
+      this.setVoiceUIState('recording');
+      this.updateRecordingStatus();
 
     } catch (error) {
       alert('无法访问麦克风，请检查权限设置');
     }
   }
 
+  /**
+   * Pause or resume the running voice recording
+   */
+  static togglePauseRecording(): void {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return;
+
+    if (recorder.state === 'recording') {
+      recorder.pause();
+      if (this.voiceSegmentStart !== null) {
+        this.voiceRecordedMs += performance.now() - this.voiceSegmentStart;
+        this.voiceSegmentStart = null;
+      }
+      this.setVoiceUIState('paused');
+    } else if (recorder.state === 'paused') {
+      recorder.resume();
+      this.voiceSegmentStart = performance.now();
+      this.setVoiceUIState('recording');
+    }
+    this.updateRecordingStatus();
+  }
+
   /**
    * Stop voice recording
    */
   static stopRecording(event: Event): void {
     event.preventDefault();
+    this.endRecording();
+  }
 
+  /**
+   * Stop the recorder and microphone; the file is built in the recorder's onstop
+   */
+  private static endRecording(): void {
     if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      if (this.voiceSegmentStart !== null) {
+        this.voiceRecordedMs += performance.now() - this.voiceSegmentStart;
+        this.voiceSegmentStart = null;
+      }
       this.mediaRecorder.stop();
 
       // Stop all audio tracks
       this.mediaRecorder.stream.getTracks().forEach(track => track.stop());
+      this.stopVoiceMonitoring();
+    }
+  }
 
-      // Update UI buttons
-      const startBtn = document.getElementById('startRecordBtn') as HTMLButtonElement;
-      const stopBtn = document.getElementById('stopRecordBtn') as HTMLButtonElement;
+  /**
+   * Build the voice file once the recorder has flushed, or discard it when too short
+   */
+  private static finishRecording(mimeType: string): void {
+    const durationSec = this.voiceRecordedMs / 1000;
+    if (durationSec < this.voiceLimits.minSec) {
+      this.audioChunks = [];
+      this.setVoiceUIState('idle');
+      alert(`录音太短，至少需要 ${this.voiceLimits.minSec} 秒`);
+      return;
+    }
 
-      if (startBtn) startBtn.style.display = 'inline-block';
-      if (stopBtn) stopBtn.style.display = 'none';
+    const type = mimeType.split(';')[0]!;
+    const audioBlob = new Blob(this.audioChunks, { type });
+    const audioFile = new File([audioBlob], `voice_${Date.now()}.${getAudioExtension(type)}`, { type });
+    this.voiceFile = audioFile;
 
+    // Show audio player
+    const audioPlayer = document.getElementById('audioPlayer') as HTMLAudioElement;
+    if (audioPlayer) {
+      audioPlayer.src = URL.createObjectURL(audioBlob);
+    }
+    this.setVoiceUIState('recorded');
+
+    const status = document.getElementById('voiceStatus');
+    if (status) status.textContent = `已录制 ${this.formatDuration(durationSec)}，可试听后提交`;
+
+    // Waveform preview; skipped silently if the browser cannot decode its own recording
+    const waveform = document.getElementById('voiceWaveform') as HTMLCanvasElement;
+    if (waveform) {
+      computeWaveform(audioBlob, WAVEFORM_BARS)
+        .then(peaks => drawWaveform(waveform, peaks, getComputedStyle(waveform).color))
+        .catch(() => {
+          waveform.style.display = 'none';
+        });
     }
   }
 
+  /**
+   * Update elapsed time and level meter; auto-stops at the max duration
+   */
+  private static updateRecordingStatus(): void {
+    const running = this.voiceSegmentStart !== null ? performance.now() - this.voiceSegmentStart : 0;
+    const elapsedSec = (this.voiceRecordedMs + running) / 1000;
+    const { minSec, maxSec } = this.voiceLimits;
+
+    if (elapsedSec >= maxSec) {
+      this.endRecording();
+      return;
+    }
+
+    const status = document.getElementById('voiceStatus');
+    if (status) {
+      const paused = this.mediaRecorder?.state === 'paused';
+      const hint = elapsedSec < minSec ? `（至少 ${minSec} 秒）` : '';
+      status.textContent = `${paused ? '已暂停' : '录音中'} ${this.formatDuration(elapsedSec)} / ${this.formatDuration(maxSec)}${hint}`;
+    }
+
+    const levelBar = document.getElementById('voiceLevelBar');
+    if (levelBar) {
+      const level = this.mediaRecorder?.state === 'recording' ? this.levelMeter?.getLevel() ?? 0 : 0;
+      levelBar.style.width = `${Math.round(level * 100)}%`;
+    }
+  }
+
+  /**
+   * Stop the status timer and release the level meter
+   */
+  private static stopVoiceMonitoring(): void {
+    if (this.voiceTimer) {
+      clearInterval(this.voiceTimer);
+      this.voiceTimer = null;
+    }
+    this.levelMeter?.close().catch(() => {});
+    this.levelMeter = null;
+
+    const levelBar = document.getElementById('voiceLevelBar');
+    if (levelBar) levelBar.style.width = '0%';
+  }
+
+  /**
+   * Show the voice controls for a recording state
+   */
+  private static setVoiceUIState(state: 'idle' | 'recording' | 'paused' | 'recorded'): void {
+    const visualizer = document.getElementById('voiceVisualizer');
+    const status = document.getElementById('voiceStatus');
+    const startBtn = document.getElementById('startRecordBtn') as HTMLButtonElement;
+    const controls = document.getElementById('voiceControls');
+    const pauseBtn = document.getElementById('pauseRecordBtn') as HTMLButtonElement;
+    const audioPlayer = document.getElementById('audioPlayer') as HTMLAudioElement;
+    const waveform = document.getElementById('voiceWaveform') as HTMLCanvasElement;
+    const submitBtn = document.getElementById('submitVoiceBtn') as HTMLButtonElement;
+    const active = state === 'recording' || state === 'paused';
+
+    visualizer?.classList.toggle('recording', state === 'recording');
+    visualizer?.classList.toggle('paused', state === 'paused');
+    if (status && state === 'idle') status.textContent = '点击开始录音';
+
+    if (startBtn) {
+      startBtn.style.display = active ? 'none' : 'block';
+      startBtn.textContent = state === 'recorded' ? '重新录音' : '开始录音';
+    }
+    if (controls) controls.style.display = active ? 'flex' : 'none';
+    if (pauseBtn) pauseBtn.textContent = state === 'paused' ? '继续' : '暂停';
+    if (audioPlayer) audioPlayer.style.display = state === 'recorded' ? 'block' : 'none';
+    if (waveform) waveform.style.display = state === 'recorded' ? 'block' : 'none';
+    if (submitBtn) {
+      submitBtn.disabled = state !== 'recorded';
+      submitBtn.style.display = state === 'recorded' ? 'block' : 'none';
+    }
+  }
+
+  /**
+   * "M:SS"
+   */
+  private static formatDuration(seconds: number): string {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Show the opening forecast above an actual-figure task (hidden for other tasks)
+   */
+  static async showForecastHint(task: Task): Promise<void> {
+    const hint = document.getElementById('forecastHint');
+    if (!hint) return;
+    hint.style.display = 'none';
+    if (!task.forecast_task_id) return;
+
+    const record = await this.loadForecast(task.forecast_task_id, this.getCheckInDate());
+    // The panel may have moved to another task meanwhile
+    if (this.getActiveTask()?.id !== task.id) return;
+
+    hint.textContent = record?.answer
+      ? `开店预测：${formatAnswer(record.answer)}`
+      : '今日开店未做预测';
+    hint.style.display = 'block';
+  }
+
+  /**
+   * Look up the store's forecast for a date (null when offline or not made yet)
+   * Found forecasts are cached per task + date; a missing one is looked up again next time
+   */
+  private static async loadForecast(forecastTaskId: string, date: string): Promise<CheckInRecord | null> {
+    const cached = this.forecastLookup;
+    if (cached && cached.taskId === forecastTaskId && cached.date === date) {
+      return cached.record;
+    }
+
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return null;
+
+    try {
+      const record = await KBDService.getForecastRecord(currentUser.restaurant_id, forecastTaskId, date);
+      if (record) this.forecastLookup = { taskId: forecastTaskId, date, record };
+      return record;
+    } catch (error) {
+      console.log('[CheckIn] Forecast lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Business date being checked in for (the make-up date, else today)
+   */
+  private static getCheckInDate(): string {
+    const makeUp = MakeUpModule.getTarget();
+    if (makeUp) return makeUp.date;
+    const now = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : new Date();
+    return BusinessDateService.getBusinessDate(now);
+  }
+
+  /**
+   * Task the panel is currently for (checklist selection, make-up target or current slot task)
+   */
+  private static getActiveTask(): Task | null {
+    const makeUp = MakeUpModule.getTarget();
+    return UIModule.getSelectedTask() ?? (makeUp ? makeUp.task : window.AppModule?.currentTask ?? null);
+  }
+
   /**
    * Handle video file selection (from camera capture or gallery)
    * Supports native video formats: mp4, mov, quicktime
-   * Max size: 10MB (enforced for reasonable upload times)
+   * Over 10MB or 30s: re-encoded in the browser (smaller, trimmed); rejected only if that is not possible
    */
   static async handleVideoUpload(e: Event): Promise<void> {
     console.log('[Video] handleVideoUpload triggered');
@@ -357,6 +649,11 @@ export class CheckInModule {
       return;
     }
 
+    // A newer pick replaces whatever is still being read or re-encoded
+    this.cancelVideoCompression();
+    const selection = new AbortController();
+    this.videoCompression = selection;
+
     console.log('[Video] File selected:', {
       name: file.name,
       type: file.type,
@@ -371,8 +668,51 @@ export class CheckInModule {
       return;
     }
 
-    // Check file size - enforce 10MB limit for reasonable upload times
-    if (file.size > VIDEO_MAX_SIZE_BYTES) {
+    // Capture time first: re-encoding drops the original metadata
+    const captureCheck = await this.checkCaptureTime(file);
+    const policy = await this.getCaptureTimePolicy();
+    if (selection.signal.aborted) return;
+    if (captureCheck.status === 'outside_window' && policy === 'reject') {
+      alert(`视频不是本时段拍摄（${this.formatCaptureTime(captureCheck.capturedAt)}），请现场拍摄`);
+      input.value = '';
+      return;
+    }
+
+    // Re-encode clips over the size or duration limit (lower resolution/bitrate, trimmed)
+    const duration = await getVideoDuration(file).catch(() => null);
+    if (selection.signal.aborted) return;
+    const tooLarge = file.size > VIDEO_MAX_SIZE_BYTES;
+    const tooLong = duration !== null && duration > VIDEO_MAX_DURATION_SEC;
+    let videoFile = file;
+
+    if ((tooLarge || tooLong) && canCompressVideo()) {
+      console.log('[Video] Compressing:', { size: file.size, duration });
+      this.setVideoCompressProgress(0);
+      try {
+        videoFile = await compressVideo(file, {
+          maxBytes: VIDEO_MAX_SIZE_BYTES,
+          maxDurationSec: VIDEO_MAX_DURATION_SEC,
+          onProgress: (percent) => this.setVideoCompressProgress(percent),
+          signal: selection.signal
+        });
+        console.log('[Video] Compressed:', `${(videoFile.size / 1024 / 1024).toFixed(2)} MB`, videoFile.type);
+      } catch (error) {
+        // Superseded: the panel has moved on, nothing to report
+        if (selection.signal.aborted) return;
+        console.log('[Video] Compression failed:', error);
+        // Small enough already (only too long): upload the original untrimmed
+        if (tooLarge) {
+          this.setVideoCompressProgress(null);
+          alert('视频压缩失败，请重新拍摄较短的视频（30 秒以内）');
+          input.value = '';
+          return;
+        }
+      } finally {
+        // A newer pick may be showing its own progress by now
+        if (!selection.signal.aborted) this.setVideoCompressProgress(null);
+      }
+    } else if (tooLarge) {
+      // Fallback: this browser cannot re-encode, keep the size limit
       const sizeMB = (file.size / 1024 / 1024).toFixed(1);
       const maxMB = (VIDEO_MAX_SIZE_BYTES / 1024 / 1024).toFixed(0);
       console.log('[Video] File too large:', file.size);
@@ -382,9 +722,13 @@ export class CheckInModule {
       return;
     }
 
+    if (selection.signal.aborted) return;
+    this.videoCompression = null;
+
     // Store the video file
-    this.currentMediaFiles = [file];
-    console.log('[Video] File stored in currentMediaFiles');
+    this.videoFile = videoFile;
+    this.videoCaptureCheck = captureCheck;
+    console.log('[Video] File stored');
 
     // Show video preview
     const videoPreview = document.getElementById('videoPreview') as HTMLVideoElement;
@@ -393,7 +737,7 @@ export class CheckInModule {
 
     if (videoPreview) {
       console.log('[Video] Setting video preview src');
-      videoPreview.src = URL.createObjectURL(file);
+      videoPreview.src = URL.createObjectURL(videoFile);
       videoPreview.style.display = 'block';
       videoPreview.controls = true;
     }
@@ -408,11 +752,168 @@ export class CheckInModule {
     }
   }
 
+  /**
+   * Stop reading or re-encoding the picked video; its result is dropped
+   */
+  static cancelVideoCompression(): void {
+    if (!this.videoCompression) return;
+
+    this.videoCompression.abort();
+    this.videoCompression = null;
+    this.setVideoCompressProgress(null);
+  }
+
+  /**
+   * Check when a photo/video was taken against the slot being checked in
+   * Make-ups are evidence gathered now, so their media must be freshly taken instead
+   */
+  private static async checkCaptureTime(file: File): Promise<MediaCaptureCheck> {
+    const capture = await readCaptureTime(file);
+    const makeUp = MakeUpModule.getTarget();
+    const slotType = window.AppModule?.currentSlotType;
+    const slotConfig = slotType ? TimeScheduler.getSlotConfig(slotType) : null;
+
+    if (!capture || (!makeUp && !slotConfig)) {
+      return { capturedAt: capture?.capturedAt ?? null, source: capture?.source ?? null, status: 'unknown' };
+    }
+
+    const now = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : new Date();
+    const inWindow = makeUp || !slotConfig
+      ? isCapturedForMakeUp(capture.capturedAt, now)
+      : isCapturedInWindow(
+        slotConfig,
+        BusinessDateService.getBusinessDate(capture.capturedAt),
+        BusinessDateService.getLocalTime(capture.capturedAt),
+        BusinessDateService.getBusinessDate(now)
+      );
+
+    console.log('[CheckIn] Capture time:', capture.source, capture.capturedAt.toISOString(), inWindow ? 'in window' : 'outside window');
+    return { capturedAt: capture.capturedAt, source: capture.source, status: inWindow ? 'in_window' : 'outside_window' };
+  }
+
+  /**
+   * Brand policy for media taken outside the slot window ('flag' when not logged in)
+   */
+  private static async getCaptureTimePolicy(): Promise<'flag' | 'reject'> {
+    const currentUser = AuthService.getCurrentUser();
+    return currentUser ? KBDService.getCaptureTimePolicy(currentUser.restaurant_id) : 'flag';
+  }
+
+  /**
+   * Summarize the capture checks of the selected media for the record
+   * Any file outside the window flags the whole check-in, with that file's capture time
+   */
+  private static getCaptureFields(): Pick<CheckInRecord, 'capture_status' | 'media_captured_at' | 'capture_source'> {
+    const checks = this.videoCaptureCheck
+      ? [...this.currentCaptureChecks, this.videoCaptureCheck]
+      : this.currentCaptureChecks;
+    if (checks.length === 0) {
+      return { capture_status: null, media_captured_at: null, capture_source: null };
+    }
+
+    const outside = checks.find(c => c.status === 'outside_window');
+    const earliest = checks
+      .filter(c => c.capturedAt)
+      .sort((a, b) => a.capturedAt!.getTime() - b.capturedAt!.getTime())[0];
+    const decisive = outside ?? earliest;
+
+    return {
+      capture_status: outside ? 'outside_window' : checks.some(c => c.status === 'unknown') ? 'unknown' : 'in_window',
+      media_captured_at: decisive?.capturedAt?.toISOString() ?? null,
+      capture_source: decisive?.source ?? null
+    };
+  }
+
+  /**
+   * Build the photo watermark for the current user, slot and time
+   * @returns Watermark, or null when the brand has watermarks off
+   */
+  private static async getWatermark(): Promise<ImageWatermark | null> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return null;
+
+    const style = await KBDService.getWatermarkStyle(currentUser.restaurant_id);
+    if (!style) return null;
+
+    const AppModule = window.AppModule;
+    const restaurant = AppModule?.allRestaurants.find(r => r.id === currentUser.restaurant_id);
+    const makeUp = MakeUpModule.getTarget();
+    const slotType = makeUp ? makeUp.slotType : AppModule?.currentSlotType;
+    const slotLabel = slotType ? MapModule.getSlotDisplayName(slotType) : '';
+    const now = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : new Date();
+    const timestamp = `${BusinessDateService.getCalendarDate(now)} ${BusinessDateService.getLocalTime(now).slice(0, 5)}`;
+
+    return {
+      lines: [
+        restaurant?.restaurant_name ?? '',
+        makeUp ? `${slotLabel} · 补卡 ${makeUp.date}` : slotLabel,
+        `${timestamp} · ${currentUser.employee_name}`
+      ],
+      style
+    };
+  }
+
+  /**
+   * "拍摄于 MM-DD HH:MM" in brand-local time
+   */
+  private static formatCaptureTime(capturedAt: Date | null): string {
+    if (!capturedAt) return '拍摄时间未知';
+    const date = BusinessDateService.getCalendarDate(capturedAt).slice(5);
+    return `拍摄于 ${date} ${BusinessDateService.getLocalTime(capturedAt).slice(0, 5)}`;
+  }
+
+  /**
+   * Locate the device and measure its distance to the store
+   * Store coordinates are GCJ-02, so the browser's WGS-84 fix is converted first
+   * @returns Rounded distance/accuracy, all null when location is unavailable
+   */
+  private static async measureLocation(restaurantId: string, radiusM: number, required: boolean): Promise<LocationFields> {
+    const unavailable: LocationFields = { distance_m: null, location_accuracy_m: null, is_out_of_range: null };
+
+    const restaurant = window.AppModule?.allRestaurants.find(r => r.id === restaurantId);
+    if (!restaurant || !Number.isFinite(restaurant.latitude) || !Number.isFinite(restaurant.longitude)) {
+      return unavailable;
+    }
+
+    const position = await getDevicePosition(required ? LOCATION_TIMEOUT_REQUIRED_MS : LOCATION_TIMEOUT_MS);
+    if (!position) return unavailable;
+
+    const distance = distanceMeters(
+      wgs84ToGcj02(position),
+      { lat: restaurant.latitude, lng: restaurant.longitude }
+    );
+    console.log('[CheckIn] Distance to store:', distance.toFixed(0), 'm, accuracy:', position.accuracy.toFixed(0), 'm');
+
+    return {
+      distance_m: Math.round(distance),
+      location_accuracy_m: Math.round(position.accuracy),
+      is_out_of_range: isOutOfRange(distance, position.accuracy, radiusM)
+    };
+  }
+
+  /**
+   * Show video compression progress over the preview zone (null hides it)
+   * The submit button stays disabled while compressing
+   */
+  private static setVideoCompressProgress(percent: number | null): void {
+    const progressEl = document.getElementById('videoCompressProgress');
+    const submitBtn = document.getElementById('submitVideoBtn') as HTMLButtonElement;
+
+    if (progressEl) {
+      progressEl.style.display = percent === null ? 'none' : 'flex';
+      progressEl.textContent = percent === null ? '' : `视频压缩中 ${percent}%`;
+    }
+    if (submitBtn && percent !== null) {
+      submitBtn.disabled = true;
+    }
+  }
+
   /**
    * Clear selected video and reset UI
    */
   static clearVideoSelection(): void {
-    this.currentMediaFiles = [];
+    this.videoFile = null;
+    this.videoCaptureCheck = null;
 
     const videoPreview = document.getElementById('videoPreview') as HTMLVideoElement;
     const videoPlaceholder = document.getElementById('videoPlaceholder');
@@ -473,7 +974,7 @@ export class CheckInModule {
 
   /**
    * Submit check-in
-   * Immediately unblurs map and shows spinner on avatar, then uploads in background
+   * Immediately unblurs map and shows spinner on avatar, then queues and uploads in background
    */
   static async submitCheckIn(): Promise<void> {
 
@@ -490,27 +991,57 @@ export class CheckInModule {
         return;
       }
 
-      const currentTask = AppModule.currentTask;
-      const currentSlotType = AppModule.currentSlotType;
+      // Make-up check-ins target a past date + slot instead of the current one
+      // With a slot checklist, each task is submitted on its own (the one selected in the panel)
+      const makeUp = MakeUpModule.getTarget();
+      const currentTask = UIModule.getSelectedTask() ?? (makeUp ? makeUp.task : AppModule.currentTask);
+      const currentSlotType = makeUp ? makeUp.slotType : AppModule.currentSlotType;
 
       if (!currentTask || !currentSlotType) {
         alert('未找到当前任务');
         return;
       }
 
-      // Validate media/text before unblurring
-      if (currentTask.media_type === 'image' && this.currentMediaFiles.length === 0) {
-        alert('请先选择照片');
+      // Validate every input the task asks for before unblurring
+      const inputs = getTaskInputs(currentTask);
+      const textInputEl = document.getElementById('textContent') as HTMLTextAreaElement;
+      const answer = AnswerInputModule.getAnswer();
+      const provided = new Set<InputType>([
+        ...(textInputEl?.value?.trim() ? ['text' as const] : []),
+        ...(answer ? ['answer' as const] : []),
+        ...(this.currentMediaFiles.length > 0 ? ['image' as const] : []),
+        ...(this.voiceFile ? ['voice' as const] : []),
+        ...(this.videoFile ? ['video' as const] : [])
+      ].filter(type => inputs.some(input => input.type === type)));
+
+      const invalid = validateTaskInputs(inputs, provided);
+      if (invalid) {
+        alert(invalid);
         return;
       }
-      if ((currentTask.media_type === 'voice' || currentTask.media_type === 'video') && this.currentMediaFiles.length === 0) {
-        alert('请先录制媒体文件');
+      const answerInvalid = answer && provided.has('answer') && currentTask.answer_schema
+        ? validateAnswer(currentTask.answer_schema, answer)
+        : null;
+      if (answerInvalid) {
+        alert(answerInvalid);
         return;
       }
-      if (currentTask.media_type === 'text') {
-        const textInputEl = document.getElementById('textContent') as HTMLTextAreaElement;
-        if (!textInputEl?.value?.trim()) {
-          alert('请输入文字内容');
+
+      // Geofence (brands that set one up). Make-ups too: their media is from the last 2 hours, so the visit is recent
+      // Located in parallel with the UI feedback unless the brand refuses out-of-range check-ins
+      const geofence = await KBDService.getGeofenceSettings(currentUser.restaurant_id);
+      const locationPromise = geofence
+        ? this.measureLocation(currentUser.restaurant_id, geofence.radiusM, geofence.required)
+        : Promise.resolve<LocationFields>({ distance_m: null, location_accuracy_m: null, is_out_of_range: null });
+
+      if (geofence?.required) {
+        const location = await locationPromise;
+        if (location.distance_m === null) {
+          alert('需要定位权限才能打卡\n\n请在浏览器设置中允许获取位置后重试');
+          return;
+        }
+        if (location.is_out_of_range) {
+          alert(`距离门店 ${location.distance_m} 米，需在 ${geofence.radiusM} 米内打卡`);
           return;
         }
       }
@@ -525,69 +1056,108 @@ export class CheckInModule {
       // 3. Show spinner on current user's avatar
       MapModule.showAvatarSpinner(currentUser.restaurant_id);
 
-      // === BACKGROUND UPLOAD ===
+      // === QUEUE + BACKGROUND UPLOAD ===
       // Use dev time if available for cross-day testing (dev mode only)
       const now = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : new Date();
-      const today = now.toISOString().split('T')[0];
-      let mediaUrls: string[] = [];
-      let textContent: string | null = null;
-
-      // Handle different media types
-      if (currentTask.media_type === 'image') {
-        console.log('[CheckIn] Uploading images:', this.currentMediaFiles.length);
-        // Upload all images
-        for (const file of this.currentMediaFiles) {
-          console.log('[CheckIn] Uploading image:', file.name, file.type, `${(file.size/1024).toFixed(1)}KB`);
-          const url = await KBDService.uploadMedia(
-            file,
-            currentUser.restaurant_id,
-            currentSlotType,
-            currentUser.id
-          );
-          console.log('[CheckIn] Image uploaded, URL:', url);
-          mediaUrls.push(url);
-        }
-      } else if (currentTask.media_type === 'voice' || currentTask.media_type === 'video') {
-        const mediaFile = this.currentMediaFiles[0];
-        if (mediaFile) {
-          console.log('[CheckIn] Uploading media file:', {
-            name: mediaFile.name,
-            type: mediaFile.type,
-            size: `${(mediaFile.size / 1024 / 1024).toFixed(2)} MB`
-          });
-          console.log('[CheckIn] Starting KBDService.uploadMedia...');
-          const uploadStart = performance.now();
-          const url = await KBDService.uploadMedia(
-            mediaFile,
-            currentUser.restaurant_id,
-            currentSlotType,
-            currentUser.id
-          );
-          const uploadTime = performance.now() - uploadStart;
-          console.log('[CheckIn] Media uploaded in', uploadTime.toFixed(0), 'ms, URL:', url);
-          mediaUrls.push(url);
-        }
-      } else if (currentTask.media_type === 'text') {
-        const textInputEl = document.getElementById('textContent') as HTMLTextAreaElement;
-        textContent = textInputEl?.value?.trim() || null;
-      }
-
-      // Submit check-in record
-      const result = await KBDService.submitCheckIn({
+      const today = makeUp ? makeUp.date : BusinessDateService.getBusinessDate(now);
+      // Punctuality is fixed at submit time, not when the upload finishes
+      const slotConfig = TimeScheduler.getSlotConfig(currentSlotType);
+      const punctuality = makeUp
+        ? 'outside_window'
+        : slotConfig
+          ? evaluatePunctuality(slotConfig, BusinessDateService.getLocalTime(now))
+          : 'on_time';
+      const textContent = provided.has('text') ? textInputEl.value.trim() : null;
+
+      // Photos first (the first URL is the map thumbnail), then video and voice; uploaded by the queue
+      const files = [
+        ...(provided.has('image') ? this.currentMediaFiles : []),
+        ...(provided.has('video') && this.videoFile ? [this.videoFile] : []),
+        ...(provided.has('voice') && this.voiceFile ? [this.voiceFile] : [])
+      ];
+
+      const location = await locationPromise;
+
+      // Saved on the device first, so a dropped connection does not lose the check-in
+      const queueId = await SubmissionQueueService.enqueue({
         restaurant_id: currentUser.restaurant_id,
         employee_id: currentUser.id,
         task_id: currentTask.id,
+        // Frozen copy of what the manager saw, so later task edits do not rewrite history
+        task_name: currentTask.task_name,
+        task_description: currentTask.task_description,
+        task_media_type: currentTask.media_type,
         check_in_date: today,
         slot_type: currentSlotType,
-        is_late: false, // TODO: Calculate based on time window
+        // Submit time, kept when the queue sends the record later
+        check_in_at: now.toISOString(),
+        is_late: punctuality !== 'on_time',
+        punctuality,
+        is_makeup: !!makeUp,
+        approval_status: makeUp ? 'pending' : null,
         text_content: textContent,
-        media_urls: mediaUrls
-      });
+        answer: provided.has('answer') ? answer : null,
+        // Photo/video capture-time check (null for text/voice)
+        ...(provided.has('image') || provided.has('video')
+          ? this.getCaptureFields()
+          : { capture_status: null, media_captured_at: null, capture_source: null }),
+        ...location
+      }, files, provided.has('answer') ? currentTask.forecast_task_id ?? null : null);
+
+      console.log('[CheckIn] Queued submission:', queueId, files.length, 'file(s)');
+
+      // Progress card with cancel (until the record is being saved); cancelling drops the queued
+      // check-in and gives the panel back
+      if (files.length > 0) {
+        UploadProgressModule.show(queueId, () => {
+          MapModule.hideAvatarSpinner(currentUser.restaurant_id);
+          MapModule.setBlur(true);
+          UIModule.showCheckInPanel();
+        });
+      }
+
+      // Resolves with this check-in's outcome; older queued check-ins keep going in the background
+      const uploadStart = performance.now();
+      const outcome = await SubmissionQueueService.send(queueId);
+      console.log('[CheckIn] Submission finished in', (performance.now() - uploadStart).toFixed(0), 'ms:', outcome);
 
-      if (!result.success) {
-        throw new Error(result.error || 'Check-in failed');
+      // Selected media is kept, so the manager can submit again right away
+      if (outcome === 'cancelled') return;
+
+      if (outcome === 'rejected') {
+        // Retrying the same data cannot succeed: drop it and keep the inputs so the manager can correct them
+        const refused = SubmissionQueueService.getPending().find(p => p.id === queueId);
+        UploadProgressModule.hide();
+        await SubmissionQueueService.cancel(queueId);
+        throw new Error(refused?.last_error || '服务器拒绝了此次打卡');
       }
 
+      if (outcome !== 'sent') {
+        // === STILL QUEUED (offline or upload failed) ===
+        // The queue retries on its own; the avatar shows the queued state until it is sent
+        MapModule.hideAvatarSpinner(currentUser.restaurant_id);
+        this.reset();
+        if (makeUp) {
+          MakeUpModule.markSubmitted(currentTask.id);
+        }
+        if (navigator.onLine && files.length > 0) {
+          // Failed files can be retried one by one from the card; cancelling discards the check-in
+          UploadProgressModule.showFailed(() => {
+            if (!MakeUpModule.getTarget() && AppModule.isInTimeWindow && !AppModule.isCurrentUserCheckedIn()) {
+              MapModule.setBlur(true);
+              UIModule.showCheckInPanel();
+            }
+          });
+        } else {
+          UploadProgressModule.hide();
+          alert(navigator.onLine
+            ? '上传失败，打卡已保存在本机\n\n将自动重试，也可点击右上角"待上传"手动重试'
+            : '网络不可用，打卡已保存在本机\n\n恢复网络后将自动提交');
+        }
+        return;
+      }
+
+      UploadProgressModule.hide();
 
       // === UPLOAD COMPLETE ===
       // Reload restaurants to show updated status and thumbnail FIRST (while spinner still shows)
@@ -601,6 +1171,12 @@ export class CheckInModule {
 
       // Reset check-in module
       this.reset();
+      if (makeUp) {
+        MakeUpModule.markSubmitted(currentTask.id);
+      } else if (AppModule.isCurrentUserCheckedIn() && AppModule.hasOpenChecklistTasks()) {
+        // Required tasks done, bonus tasks left: offer them without blocking the map
+        UIModule.showCheckInPanel();
+      }
     } catch (error) {
 
       // Hide spinner on error
@@ -613,13 +1189,9 @@ export class CheckInModule {
       MapModule.setBlur(true);
       UIModule.showCheckInPanel();
 
-      // Provide user-friendly error messages
+      // Upload failures stay in the queue; what ends up here happened before or after it
       const errorMessage = error instanceof Error ? error.message : '未知错误';
-      if (errorMessage.includes('timeout') || errorMessage.includes('超时')) {
-        alert(`上传超时\n\n可能原因：\n1. 网络连接不稳定\n2. 文件过大（视频建议 < 10MB）\n3. 服务器响应慢\n\n建议：\n• 切换到更稳定的网络\n• 选择较小的视频文件\n• 稍后重试`);
-      } else {
-        alert(`打卡失败: ${errorMessage}`);
-      }
+      alert(`打卡失败: ${errorMessage}`);
     }
   }
 
@@ -629,8 +1201,23 @@ export class CheckInModule {
   static reset(): void {
 
     this.currentMediaFiles = [];
+    this.currentCaptureChecks = [];
+    this.voiceFile = null;
+    this.videoFile = null;
+    this.videoCaptureCheck = null;
+    this.cancelVideoCompression();
+    AnswerInputModule.reset();
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      // Drop the running recording instead of turning it into a file
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+      this.mediaRecorder.stream.getTracks().forEach(track => track.stop());
+    }
+    this.stopVoiceMonitoring();
     this.mediaRecorder = null;
     this.audioChunks = [];
+    this.voiceRecordedMs = 0;
+    this.voiceSegmentStart = null;
 
     if (this.videoStream) {
       this.videoStream.getTracks().forEach(track => track.stop());
@@ -662,7 +1249,8 @@ export class CheckInModule {
     const textContent = document.getElementById('textContent') as HTMLTextAreaElement;
     const submitCheckInBtn = document.getElementById('submitCheckInBtn') as HTMLButtonElement;
 
-    if (audioPlayer) audioPlayer.style.display = 'none';
+    this.setVoiceUIState('idle');
+    if (audioPlayer) audioPlayer.removeAttribute('src');
     if (videoPreview) {
       videoPreview.style.display = 'none';
       videoPreview.srcObject = null;
@@ -687,6 +1275,7 @@ if (typeof window !== 'undefined') {
   window.submitCheckIn = () => CheckInModule.submitCheckIn();
   window.startRecording = (e: Event) => CheckInModule.startRecording(e);
   window.stopRecording = (e: Event) => CheckInModule.stopRecording(e);
+  window.togglePauseRecording = () => CheckInModule.togglePauseRecording();
   window.toggleVideoRecording = () => CheckInModule.toggleVideoRecording();
   window.handleVideoUpload = (e: Event) => CheckInModule.handleVideoUpload(e);
   window.clearVideoSelection = () => CheckInModule.clearVideoSelection();
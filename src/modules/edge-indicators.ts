@@ -1,4 +1,4 @@
-// Version: 5.2 - Center-out layout; automatically skips restaurants without markers (null coords)
+// Version: 5.3 - Closed stores (closure calendar) shown with their own indicator state
 // Edge Indicators Module - Off-screen restaurant navigation indicators
 // Handles: Detecting off-screen markers, rendering edge indicators, center-out position calculation
 
@@ -221,11 +221,12 @@ export class EdgeIndicatorsModule {
       // Update checked state
       indicator.classList.toggle('checked', restaurant.checked || false);
       indicator.classList.toggle('not-checked', !restaurant.checked);
+      indicator.classList.toggle('closed', !restaurant.checked && Boolean(restaurant.closure));
     } else {
       // Create new indicator element
       indicator = document.createElement('div');
       indicator.id = indicatorId;
-      indicator.className = `edge-indicator ${restaurant.checked ? 'checked' : 'not-checked'}`;
+      indicator.className = `edge-indicator ${restaurant.checked ? 'checked' : 'not-checked'} ${!restaurant.checked && restaurant.closure ? 'closed' : ''}`;
       indicator.style.left = `${x}px`;
       indicator.style.top = `${y}px`;
       indicator.style.transform = `translate(-50%, -50%)`;
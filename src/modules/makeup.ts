@@ -0,0 +1,248 @@
+// Version: 1.2 - Make-up covers the slot checklist (required tasks before the slot is made up)
+// Make-Up Module - Missed slot picker and make-up check-in state
+// Handles: Listing missed slots, loading the past task into the check-in panel, tracking the make-up target
+
+import { AuthService } from '@services/auth.service';
+import { KBDService } from '@services/kbd.service';
+import { MapModule } from '@modules/map';
+import { UIModule } from '@modules/ui';
+import { TimeScheduler } from '@modules/time-scheduler';
+import { getChecklistProgress } from '@/utils/checklist';
+import type { Task, SlotType, MissedSlot } from '@/types/models';
+
+// Conditionally import TimeControlModule only in development
+let TimeControlModule: typeof import('@modules/time-control').TimeControlModule | null = null;
+if (import.meta.env.DEV) {
+  import('@modules/time-control').then(m => {
+    TimeControlModule = m.TimeControlModule;
+  });
+}
+
+export interface MakeUpTarget {
+  date: string; // Business date YYYY-MM-DD being made up
+  slotType: SlotType;
+  task: Task; // Primary task
+  checklist: Task[]; // Primary plus attached tasks
+  submittedTaskIds: string[];
+}
+
+export class MakeUpModule {
+  // Active make-up target (null = normal check-in)
+  private static target: MakeUpTarget | null = null;
+  private static overlay: HTMLDivElement | null = null;
+
+  /**
+   * Set up make-up button and panel cancel button
+   */
+  static initialize(): void {
+    const makeupBtn = document.getElementById('makeupBtn');
+    makeupBtn?.addEventListener('click', () => this.openPicker());
+
+    const cancelBtn = document.getElementById('makeupCancelBtn');
+    cancelBtn?.addEventListener('click', () => this.cancel());
+  }
+
+  /**
+   * Get active make-up target, or null for a normal check-in
+   */
+  static getTarget(): MakeUpTarget | null {
+    return this.target;
+  }
+
+  /**
+   * Show list of missed slots the current store can still make up
+   */
+  static async openPicker(): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser || this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'history-overlay';
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.closePicker();
+      }
+    });
+
+    const panel = document.createElement('div');
+    panel.className = 'history-panel';
+    panel.innerHTML = `
+      <div class="history-header">
+        <h3>补卡</h3>
+        <button class="history-close-btn" aria-label="关闭">
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+      <div class="history-list-container">
+        <div class="history-list" id="makeupList"></div>
+        <div class="history-loading" id="makeupLoading">
+          <div class="spinner-small"></div>
+          <span>加载中...</span>
+        </div>
+      </div>
+    `;
+
+    this.overlay.appendChild(panel);
+    document.body.appendChild(this.overlay);
+
+    panel.querySelector('.history-close-btn')?.addEventListener('click', () => this.closePicker());
+
+    requestAnimationFrame(() => {
+      this.overlay?.classList.add('visible');
+    });
+
+    try {
+      const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : null;
+      const missed = await KBDService.getMissedSlots(
+        currentUser.restaurant_id,
+        TimeScheduler.getSlotConfigs(),
+        devTime
+      );
+      this.renderMissedSlots(missed);
+    } catch (error) {
+      alert('加载补卡列表失败');
+      this.closePicker();
+    } finally {
+      const loadingEl = document.getElementById('makeupLoading');
+      if (loadingEl) loadingEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Render missed slot list (empty state when nothing to make up)
+   */
+  private static renderMissedSlots(missed: MissedSlot[]): void {
+    const listEl = document.getElementById('makeupList');
+    if (!listEl) return;
+
+    if (missed.length === 0) {
+      listEl.innerHTML = '<div class="history-end">没有需要补卡的时段</div>';
+      return;
+    }
+
+    missed.forEach(slot => {
+      const item = document.createElement('div');
+      item.className = 'history-item makeup-item';
+      item.innerHTML = `
+        <div class="history-item-content">
+          <div class="history-item-title">${slot.check_in_date}</div>
+          <div class="history-item-meta">
+            <span class="history-item-slot">${MapModule.getSlotDisplayName(slot.slot_type)}</span>
+            <span class="history-item-badge outside_window">未打卡</span>
+          </div>
+        </div>
+      `;
+      item.addEventListener('click', () => this.start(slot));
+      listEl.appendChild(item);
+    });
+  }
+
+  /**
+   * Close missed slot picker
+   */
+  private static closePicker(): void {
+    const overlay = this.overlay;
+    if (overlay) {
+      overlay.classList.remove('visible');
+      setTimeout(() => overlay.remove(), 300);
+    }
+    this.overlay = null;
+  }
+
+  /**
+   * Start a make-up check-in: load that day's task and open the check-in panel for it
+   */
+  static async start(slot: MissedSlot): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return;
+
+    try {
+      const checklist = await KBDService.getChecklistForDate(currentUser.restaurant_id, slot.slot_type, slot.check_in_date);
+      const task = checklist[0];
+      if (!task) {
+        alert('未找到该时段的任务');
+        return;
+      }
+
+      this.closePicker();
+      this.target = {
+        date: slot.check_in_date,
+        slotType: slot.slot_type,
+        task,
+        checklist,
+        submittedTaskIds: slot.submitted_task_ids
+      };
+
+      this.showPanel();
+    } catch (error) {
+      alert('加载补卡任务失败');
+    }
+  }
+
+  /**
+   * Show the check-in panel for the make-up target (next open checklist task)
+   */
+  private static showPanel(): void {
+    if (!this.target) return;
+    const { date, slotType, task, checklist, submittedTaskIds } = this.target;
+
+    UIModule.updateCheckInPanel(false, task, null, checklist, submittedTaskIds);
+    const panelTitle = document.getElementById('panelTitle');
+    if (panelTitle) {
+      panelTitle.textContent = `补卡 · ${date} ${MapModule.getSlotDisplayName(slotType)}`;
+    }
+
+    const cancelBtn = document.getElementById('makeupCancelBtn');
+    if (cancelBtn) cancelBtn.style.display = 'block';
+
+    MapModule.setBlur(true);
+    UIModule.showCheckInPanel();
+  }
+
+  /**
+   * Record a submitted checklist task of the make-up target
+   * Reopens the panel while required tasks are left, otherwise ends the make-up
+   */
+  static markSubmitted(taskId: string): void {
+    if (!this.target) return;
+
+    this.target.submittedTaskIds = [...this.target.submittedTaskIds, taskId];
+    if (getChecklistProgress(this.target.checklist, this.target.submittedTaskIds).complete) {
+      this.finish();
+    } else {
+      this.showPanel();
+    }
+  }
+
+  /**
+   * Cancel make-up and restore the panel for the current slot
+   */
+  static cancel(): void {
+    MapModule.setBlur(false);
+    UIModule.hideCheckInPanel();
+    this.finish();
+  }
+
+  /**
+   * Clear make-up target (after submit or cancel)
+   */
+  static finish(): void {
+    this.target = null;
+
+    const cancelBtn = document.getElementById('makeupCancelBtn');
+    if (cancelBtn) cancelBtn.style.display = 'none';
+
+    const AppModule = window.AppModule;
+    if (AppModule) {
+      AppModule.updateCheckInPanel();
+    }
+  }
+}
+
+// Export to window for backward compatibility
+if (typeof window !== 'undefined') {
+  window.MakeUpModule = MakeUpModule;
+}
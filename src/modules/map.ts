@@ -1,4 +1,4 @@
-// Version: 6.8 - Added setInteractionsEnabled() for locking map when panel is open
+// Version: 8.2 - Review buttons only on other employees' make-ups; review through the server function
 // Map Module - Leaflet.js map initialization and marker management
 // Philosophy: Rely on browser's built-in HTTP cache to minimize API requests
 // Handles: Map initialization, marker creation, marker updates, restaurant navigation, history panel, media preview, night theme
@@ -7,8 +7,23 @@ import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { AuthService } from '@services/auth.service';
 import { KBDService } from '@services/kbd.service';
+import { TimeScheduler } from '@modules/time-scheduler';
+import { formatAnswer } from '@/utils/answers';
 import type { Restaurant, CheckInRecord, Task } from '@/types/models';
 
+// Punctuality badge labels for history items (on_time shows no badge)
+const PUNCTUALITY_LABELS: Record<string, string> = {
+  late: '迟到',
+  outside_window: '窗口外'
+};
+
+// Make-up (补卡) badge labels by approval status
+const APPROVAL_LABELS: Record<string, string> = {
+  pending: '补卡·待审核',
+  approved: '补卡·已通过',
+  rejected: '补卡·已驳回'
+};
+
 
 export class MapModule {
   // State
@@ -27,18 +42,28 @@ export class MapModule {
    * Check if URL is a video file based on extension
    */
   private static isVideoUrl(url: string): boolean {
+    // Voice recordings can be .webm too; uploads sit in a /voice/ folder
+    if (url.includes('/voice/')) return false;
     const ext = url.split('.').pop()?.toLowerCase() || '';
     return ['mp4', 'mov', 'webm', 'ogg', 'avi'].includes(ext);
   }
 
   /**
-   * Check if URL is an audio file based on extension
+   * Check if URL is an audio file based on extension (or the /voice/ upload folder)
    */
   private static isAudioUrl(url: string): boolean {
+    if (url.includes('/voice/')) return true;
     const ext = url.split('.').pop()?.toLowerCase() || '';
     return ['mp3', 'wav', 'ogg', 'm4a', 'aac', 'webm'].includes(ext);
   }
 
+  /**
+   * Text for the avatar bubble: the written text, else the structured answer
+   */
+  private static getBubbleText(record: CheckInRecord): string | null {
+    return record.text_content || (record.answer ? formatAnswer(record.answer) : null);
+  }
+
   /**
    * Create thumbnail element (image or video placeholder icon)
    */
@@ -95,6 +120,37 @@ export class MapModule {
     }
   }
 
+  /**
+   * Check if a check-in was submitted after the on-time deadline
+   * Falls back to is_late for records created before punctuality tracking
+   */
+  static isLateCheckIn(record: Partial<CheckInRecord> | null | undefined): boolean {
+    if (!record) return false;
+    if (record.punctuality) return record.punctuality !== 'on_time';
+    return Boolean(record.is_late);
+  }
+
+  /**
+   * Check if a check-in is a make-up still waiting for supervisor review
+   */
+  static isPendingMakeUp(record: Partial<CheckInRecord> | null | undefined): boolean {
+    return Boolean(record?.is_makeup) && record?.approval_status === 'pending';
+  }
+
+  /**
+   * Check if a store is closed (closure calendar) and has not checked in anyway
+   */
+  static isClosedStore(restaurant: Restaurant): boolean {
+    return !restaurant.checked && Boolean(restaurant.closure);
+  }
+
+  /**
+   * Get display name for a slot type
+   */
+  static getSlotDisplayName(slotType: string): string {
+    return TimeScheduler.getSlotLabel(slotType);
+  }
+
   /**
    * LocalStorage key format for read status: kbd_read_{restaurantId}_{date}_{slotType}
    */
@@ -225,6 +281,10 @@ export class MapModule {
     const currentUser = AuthService.getCurrentUser();
     const isChecked = restaurant.checked || false;
     const isCurrentUser = restaurant.id === currentUser?.restaurant_id;
+    const isLate = isChecked && this.isLateCheckIn(restaurant.checkInData);
+    const isMakeUp = isChecked && this.isPendingMakeUp(restaurant.checkInData);
+    const isClosed = this.isClosedStore(restaurant);
+    const isQueued = !isChecked && Boolean(restaurant.queued);
 
     const manager = restaurant.master_employee?.[0] || { employee_name: restaurant.restaurant_name, profile_photo_url: null };
     const initials = manager.employee_name?.substring(0, 2) || restaurant.restaurant_name?.substring(0, 2) || '店';
@@ -237,13 +297,13 @@ export class MapModule {
     const thumbnailUrl = showThumbnail ? restaurant.checkInData!.media_urls![0] : null;
 
     // Check if text bubble should be visible (for text-type check-ins)
-    const showTextBubble = isChecked && !thumbnailUrl && restaurant.checkInData?.text_content &&
-                          !restaurant.displayMode;
-    const textContent = showTextBubble ? restaurant.checkInData!.text_content : null;
+    const showTextBubble = isChecked && !thumbnailUrl && restaurant.checkInData &&
+                          this.getBubbleText(restaurant.checkInData) && !restaurant.displayMode;
+    const textContent = showTextBubble ? this.getBubbleText(restaurant.checkInData!) : null;
 
     // Create marker HTML
     const markerEl = document.createElement('div');
-    markerEl.className = `avatar-marker ${isChecked ? 'checked' : 'not-checked'} ${isCurrentUser ? 'current-user' : ''}`;
+    markerEl.className = `avatar-marker ${isChecked ? 'checked' : 'not-checked'} ${isLate ? 'late' : ''} ${isMakeUp ? 'makeup' : ''} ${isClosed ? 'closed' : ''} ${isQueued ? 'queued' : ''} ${isCurrentUser ? 'current-user' : ''}`;
     markerEl.setAttribute('data-id', restaurant.id);
 
     // Create thumbnail HTML using helper method
@@ -251,16 +311,24 @@ export class MapModule {
 
     markerEl.innerHTML = `
             <div class="completion-badge"></div>
+            <div class="closure-badge" title="${restaurant.closure?.reason || '闭店'}">休</div>
+            <div class="queued-badge" title="待上传">↑</div>
             ${thumbnailHtml}
             ${textContent ? `
             <div class="avatar-text-bubble ${showTextBubble ? 'visible' : ''}" id="text-${restaurant.id}">
-                <span class="text-quote">"${textContent}"</span>
+                <span class="text-quote"></span>
             </div>
             ` : ''}
             <div class="avatar-img" data-initials="${initials}" ${avatarUrl ? `style="background-image: url('${avatarUrl}'); background-size: cover; background-position: center;"` : ''}>${avatarUrl ? '' : initials}</div>
             <span class="avatar-name">${restaurant.restaurant_name}</span>
         `;
 
+    // Bubble text (answer labels, typed text) set as text, so outerHTML below carries it escaped
+    const textQuote = markerEl.querySelector('.text-quote');
+    if (textQuote && textContent) {
+      textQuote.textContent = `"${textContent}"`;
+    }
+
     // Create Leaflet marker with custom icon
     const icon = L.divIcon({
       html: markerEl.outerHTML,
@@ -341,6 +409,10 @@ export class MapModule {
           if (avatarMarker) {
             avatarMarker.classList.toggle('checked', isChecked);
             avatarMarker.classList.toggle('not-checked', !isChecked);
+            avatarMarker.classList.toggle('late', isChecked && this.isLateCheckIn(restaurant.checkInData));
+            avatarMarker.classList.toggle('makeup', isChecked && this.isPendingMakeUp(restaurant.checkInData));
+            avatarMarker.classList.toggle('closed', this.isClosedStore(restaurant));
+            avatarMarker.classList.toggle('queued', !isChecked && Boolean(restaurant.queued));
             avatarMarker.classList.toggle('current-user', isCurrentUser);
           }
 
@@ -394,9 +466,9 @@ export class MapModule {
           }
 
           // Handle text bubble for text-type check-ins
-          const showTextBubble = isChecked && !newThumbnailUrl && restaurant.checkInData?.text_content &&
-                                !restaurant.displayMode;
-          const newTextContent = showTextBubble ? restaurant.checkInData!.text_content : null;
+          const showTextBubble = isChecked && !newThumbnailUrl && restaurant.checkInData &&
+                                this.getBubbleText(restaurant.checkInData) && !restaurant.displayMode;
+          const newTextContent = showTextBubble ? this.getBubbleText(restaurant.checkInData!) : null;
           const textBubbleContainer = markerElement.querySelector('.avatar-text-bubble');
 
           if (newTextContent) {
@@ -412,7 +484,10 @@ export class MapModule {
               const newTextBubble = document.createElement('div');
               newTextBubble.className = `avatar-text-bubble ${showTextBubble ? 'visible' : ''}`;
               newTextBubble.id = `text-${restaurant.id}`;
-              newTextBubble.innerHTML = `<span class="text-quote">"${newTextContent}"</span>`;
+              const newTextQuote = document.createElement('span');
+              newTextQuote.className = 'text-quote';
+              newTextQuote.textContent = `"${newTextContent}"`;
+              newTextBubble.appendChild(newTextQuote);
               const avatarImg = markerElement.querySelector('.avatar-img');
               if (avatarImg?.parentElement) {
                 avatarImg.parentElement.insertBefore(newTextBubble, avatarImg);
@@ -654,6 +729,7 @@ export class MapModule {
           </svg>
         </button>
       </div>
+      <div class="history-forecast" id="historyForecast" style="display: none;"></div>
       <div class="history-list-container">
         <div class="history-list" id="historyList"></div>
         <div class="history-loading" id="historyLoading" style="display: none;">
@@ -680,10 +756,45 @@ export class MapModule {
       overlay.classList.add('visible');
     });
 
+    // Forecast accuracy loads next to the list; it stays hidden for stores without forecast pairs
+    this.loadForecastAccuracy(restaurant);
+
     // Load initial data
     await this.loadMoreHistory();
   }
 
+  /**
+   * Show the store's running forecast accuracy and each forecaster's, above the history list
+   */
+  private static async loadForecastAccuracy(restaurant: Restaurant): Promise<void> {
+    try {
+      const { store, managers } = await KBDService.getForecastAccuracy(restaurant.id);
+      const forecastEl = document.getElementById('historyForecast');
+      if (!store || !forecastEl || this.currentRestaurantId !== restaurant.id) return;
+
+      const names = new Map((restaurant.master_employee || []).map(e => [e.id, e.employee_name]));
+      const managerHtml = managers
+        .map(m => `<span class="history-forecast-manager">${names.get(m.employeeId) ?? '其他员工'} ${this.formatPercent(m.score)}（${m.count}）</span>`)
+        .join('');
+
+      forecastEl.innerHTML = `
+        <div class="history-forecast-store">近 30 天预测准确率 <strong>${this.formatPercent(store.score)}</strong>（${store.count} 次）</div>
+        ${managers.length > 0 ? `<div class="history-forecast-managers">${managerHtml}</div>` : ''}
+      `;
+      forecastEl.style.display = 'block';
+    } catch (error) {
+      // Accuracy is extra information; the history works without it
+      console.log('[Map] Forecast accuracy failed:', error);
+    }
+  }
+
+  /**
+   * 0-1 score as "86%"
+   */
+  private static formatPercent(score: number): string {
+    return `${Math.round(score * 100)}%`;
+  }
+
   /**
    * Load more history records
    */
@@ -735,26 +846,60 @@ export class MapModule {
     item.className = 'history-item';
 
     const checkInDate = new Date(record.check_in_at);
-    const dateStr = checkInDate.toLocaleDateString('zh-CN', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    });
+    // Make-ups are listed under the day they make up, not the day they were submitted
+    const dateStr = record.is_makeup
+      ? record.check_in_date.replace(/-/g, '/')
+      : checkInDate.toLocaleDateString('zh-CN', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      });
     const timeStr = checkInDate.toLocaleTimeString('zh-CN', {
       hour: '2-digit',
       minute: '2-digit'
     });
 
-    // Slot type display names
-    const slotTypeNames: Record<string, string> = {
-      lunch_open: '午市开店',
-      lunch_close: '午市闭店',
-      dinner_open: '晚市开店',
-      dinner_close: '晚市闭店'
-    };
-
-    const slotName = slotTypeNames[record.slot_type] || record.slot_type;
+    const slotName = this.getSlotDisplayName(record.slot_type);
+    // Snapshot of the task at submission (see KBDService.getCheckInHistory)
     const taskName = record.task?.task_name || '打卡任务';
+    const taskDescription = record.task?.task_description || '';
+
+    // Late / outside-window badge (make-ups show their approval status instead)
+    const punctuality = record.punctuality || (record.is_late ? 'late' : 'on_time');
+    const punctualityLabel = PUNCTUALITY_LABELS[punctuality];
+    const approvalStatus = record.approval_status || 'pending';
+    const punctualityHtml = record.is_makeup
+      ? `<span class="history-item-badge makeup ${approvalStatus}">${APPROVAL_LABELS[approvalStatus]}</span>`
+      : punctualityLabel
+        ? `<span class="history-item-badge ${punctuality}">${punctualityLabel}</span>`
+        : '';
+
+    // Photo/video taken outside the slot window (e.g. reused from the gallery)
+    const captureHtml = record.capture_status === 'outside_window'
+      ? `<span class="history-item-badge capture-outside" title="${record.media_captured_at ? new Date(record.media_captured_at).toLocaleString('zh-CN') : ''}">非本时段拍摄</span>`
+      : '';
+
+    // Submitted outside the brand's geofence radius
+    const locationHtml = record.is_out_of_range
+      ? `<span class="history-item-badge out-of-range" title="距门店 ${record.distance_m ?? '?'} 米（定位精度 ±${record.location_accuracy_m ?? '?'} 米）">不在门店</span>`
+      : '';
+
+    // Actual figure of a forecast pair: how close the opening forecast was
+    const forecastHtml = record.forecast_score !== null && record.forecast_score !== undefined
+      ? `<span class="history-item-badge forecast">预测准确率 ${this.formatPercent(record.forecast_score)}</span>`
+      : '';
+
+    // Reviewers can approve or reject pending make-ups, except their own
+    const reviewHtml = this.isPendingMakeUp(record) &&
+      AuthService.canReviewMakeUp() &&
+      record.employee_id !== AuthService.getCurrentUser()?.id
+      ? `
+        <div class="history-item-review">
+          <button class="history-review-btn approve" data-approved="true">通过</button>
+          <button class="history-review-btn reject" data-approved="false">驳回</button>
+        </div>
+      `
+      : '';
 
     // Create thumbnail HTML based on media type (image, video, audio, or text)
     let thumbnailHtml = '';
@@ -792,6 +937,11 @@ export class MapModule {
       }
     }
 
+    // Structured answer (number/choice/checklist tasks), filled in as text below
+    const answerHtml = record.answer
+      ? '<div class="history-item-answer"></div>'
+      : '';
+
     // Create text content display (for text-type check-ins)
     const textContentHtml = record.text_content
       ? `<div class="history-item-text">"${record.text_content}"</div>`
@@ -800,16 +950,41 @@ export class MapModule {
     item.innerHTML = `
       ${thumbnailHtml}
       <div class="history-item-content">
-        <div class="history-item-title">${taskName}</div>
+        <div class="history-item-title"></div>
+        ${answerHtml}
         ${textContentHtml}
         <div class="history-item-meta">
           <span class="history-item-date">${dateStr}</span>
           <span class="history-item-time">${timeStr}</span>
           <span class="history-item-slot">${slotName}</span>
+          ${punctualityHtml}
+          ${captureHtml}
+          ${locationHtml}
+          ${forecastHtml}
         </div>
+        ${reviewHtml}
       </div>
     `;
 
+    // Set as properties: the snapshot is ops-authored text and may contain quotes or markup
+    const titleEl = item.querySelector<HTMLDivElement>('.history-item-title');
+    if (titleEl) {
+      titleEl.textContent = taskName;
+      titleEl.title = taskDescription;
+    }
+    // Option and checklist labels come from the task schema
+    const answerEl = item.querySelector<HTMLDivElement>('.history-item-answer');
+    if (answerEl && record.answer) {
+      answerEl.textContent = formatAnswer(record.answer);
+    }
+
+    item.querySelectorAll<HTMLButtonElement>('.history-review-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.reviewMakeUp(item, record, btn.dataset.approved === 'true');
+      });
+    });
+
     // Add click handler for media preview
     if (record.media_urls && record.media_urls.length > 0) {
       const thumbnail = item.querySelector('.history-item-thumbnail');
@@ -821,6 +996,32 @@ export class MapModule {
     return item;
   }
 
+  /**
+   * Approve or reject a pending make-up from the history panel
+   */
+  private static async reviewMakeUp(item: HTMLDivElement, record: CheckInRecord, approved: boolean): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return;
+
+    const buttons = item.querySelectorAll<HTMLButtonElement>('.history-review-btn');
+    buttons.forEach(btn => { btn.disabled = true; });
+
+    const result = await KBDService.reviewMakeUpCheckIn(record.id, currentUser, approved);
+    if (!result.success) {
+      buttons.forEach(btn => { btn.disabled = false; });
+      alert(`审核失败: ${result.error || '未知错误'}`);
+      return;
+    }
+
+    const status = approved ? 'approved' : 'rejected';
+    const badge = item.querySelector('.history-item-badge.makeup');
+    if (badge) {
+      badge.className = `history-item-badge makeup ${status}`;
+      badge.textContent = APPROVAL_LABELS[status] ?? '';
+    }
+    item.querySelector('.history-item-review')?.remove();
+  }
+
   /**
    * Handle scroll for lazy loading
    */
@@ -903,8 +1104,8 @@ export class MapModule {
 
       const ext = url.split('.').pop()?.toLowerCase() || '';
       const isImage = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'].includes(ext);
-      const isVideo = ['mp4', 'mov', 'webm', 'ogg'].includes(ext);
-      const isAudio = ['mp3', 'wav', 'ogg', 'm4a', 'aac', 'webm'].includes(ext);
+      const isVideo = this.isVideoUrl(url);
+      const isAudio = this.isAudioUrl(url);
 
       if (isImage) {
         const img = document.createElement('img');
@@ -1078,8 +1279,8 @@ export class MapModule {
 
       const ext = url.split('.').pop()?.toLowerCase() || '';
       const isImage = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'].includes(ext);
-      const isVideo = ['mp4', 'mov', 'webm', 'ogg'].includes(ext);
-      const isAudio = ['mp3', 'wav', 'ogg', 'm4a', 'aac', 'webm'].includes(ext);
+      const isVideo = this.isVideoUrl(url);
+      const isAudio = this.isAudioUrl(url);
 
       if (isImage) {
         // Add loading spinner
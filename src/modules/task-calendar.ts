@@ -0,0 +1,221 @@
+// Version: 1.3 - Task names set as text; permission from kbd_role_permission
+// Task Calendar Module - Upcoming task plan per date and slot
+// Handles: Calendar panel, week navigation, source tags and bad-combination badges
+
+import { AuthService } from '@services/auth.service';
+import { KBDService } from '@services/kbd.service';
+import { BusinessDateService } from '@services/business-date.service';
+import { TimeScheduler } from '@modules/time-scheduler';
+import type { TaskCalendarDay, CalendarIssue } from '@/utils/task-calendar';
+import type { TaskSource } from '@/utils/task-resolver';
+
+// Conditionally import TimeControlModule only in development
+let TimeControlModule: typeof import('@modules/time-control').TimeControlModule | null = null;
+if (import.meta.env.DEV) {
+  import('@modules/time-control').then(m => {
+    TimeControlModule = m.TimeControlModule;
+  });
+}
+
+const CALENDAR_DAYS = 7;
+
+const WEEKDAY_NAMES = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+const SOURCE_LABELS: Record<TaskSource, string> = {
+  temporary: '临时',
+  paired: '预测配对',
+  fixed: '固定',
+  routine: '轮换'
+};
+
+const ISSUE_LABELS: Record<CalendarIssue, string> = {
+  no_task: '无任务',
+  repeat_same_day: '同日重复',
+  repeat_previous_day: '连续两天',
+  unannounced_temporary: '临时任务未发布'
+};
+
+export class TaskCalendarModule {
+  private static overlay: HTMLDivElement | null = null;
+  private static startDate: string | null = null;
+
+  /**
+   * Show calendar button for ops/supervisor roles
+   */
+  static initialize(): void {
+    const calendarBtn = document.getElementById('calendarBtn');
+    if (!calendarBtn || !AuthService.canPreviewTaskCalendar()) return;
+
+    calendarBtn.style.display = 'block';
+    calendarBtn.addEventListener('click', () => this.open());
+  }
+
+  /**
+   * Open calendar panel starting from today's business date
+   */
+  static async open(): Promise<void> {
+    if (this.overlay) return;
+
+    const devTime = TimeControlModule?.isDevMode() ? TimeControlModule.getCurrentTime() : undefined;
+    this.startDate = BusinessDateService.getBusinessDate(devTime);
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'history-overlay';
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close();
+      }
+    });
+
+    const panel = document.createElement('div');
+    panel.className = 'history-panel calendar-panel';
+    panel.innerHTML = `
+      <div class="history-header">
+        <h3>任务预览</h3>
+        <div class="calendar-nav">
+          <button class="calendar-nav-btn" data-delta="-${CALENDAR_DAYS}" aria-label="上一周">‹</button>
+          <span class="calendar-range" id="calendarRange"></span>
+          <button class="calendar-nav-btn" data-delta="${CALENDAR_DAYS}" aria-label="下一周">›</button>
+        </div>
+        <button class="history-close-btn" aria-label="关闭">
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+      <div class="history-list-container">
+        <div class="history-list" id="calendarList"></div>
+        <div class="history-loading" id="calendarLoading" style="display: none;">
+          <div class="spinner-small"></div>
+          <span>加载中...</span>
+        </div>
+      </div>
+    `;
+
+    this.overlay.appendChild(panel);
+    document.body.appendChild(this.overlay);
+
+    panel.querySelector('.history-close-btn')?.addEventListener('click', () => this.close());
+    panel.querySelectorAll<HTMLButtonElement>('.calendar-nav-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.shift(parseInt(btn.dataset.delta || '0')));
+    });
+
+    requestAnimationFrame(() => {
+      this.overlay?.classList.add('visible');
+    });
+
+    await this.load();
+  }
+
+  /**
+   * Move the visible range by a number of days
+   */
+  private static async shift(days: number): Promise<void> {
+    if (!this.startDate) return;
+    this.startDate = BusinessDateService.addDays(this.startDate, days);
+    await this.load();
+  }
+
+  /**
+   * Load and render the calendar for the current range
+   */
+  private static async load(): Promise<void> {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser || !this.startDate) return;
+
+    const listEl = document.getElementById('calendarList');
+    const loadingEl = document.getElementById('calendarLoading');
+    const rangeEl = document.getElementById('calendarRange');
+
+    if (listEl) listEl.innerHTML = '';
+    if (loadingEl) loadingEl.style.display = 'flex';
+    if (rangeEl) {
+      rangeEl.textContent = `${this.startDate.slice(5)} ~ ${BusinessDateService.addDays(this.startDate, CALENDAR_DAYS - 1).slice(5)}`;
+    }
+
+    try {
+      const brandId = await KBDService.getBrandId(currentUser.restaurant_id);
+      const days = await KBDService.getTaskCalendar(brandId, this.startDate, CALENDAR_DAYS);
+
+      // How many stores acknowledged each announced temporary task
+      const temporaryIds = days.flatMap(day =>
+        day.slots.filter(slot => slot.source === 'temporary' && slot.task).map(slot => slot.task!.id)
+      );
+      let readCounts = new Map<string, number>();
+      try {
+        readCounts = await KBDService.getAnnouncementReadCounts(temporaryIds);
+      } catch (error) {
+        // Read counts are optional in the preview
+      }
+
+      if (listEl) {
+        days.forEach(day => listEl.appendChild(this.createDayElement(day, readCounts)));
+      }
+    } catch (error) {
+      alert('加载任务预览失败');
+    } finally {
+      if (loadingEl) loadingEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Create one day block (slot rows with task, source, read count and issues)
+   * @param readCounts - task_id -> stores that acknowledged the announcement
+   */
+  private static createDayElement(day: TaskCalendarDay, readCounts: Map<string, number>): HTMLDivElement {
+    const dayEl = document.createElement('div');
+    dayEl.className = 'calendar-day';
+
+    const slotsHtml = day.slots.map(slot => {
+      const sourceHtml = slot.source
+        ? `<span class="calendar-source ${slot.source}">${SOURCE_LABELS[slot.source]}</span>`
+        : '';
+      const readHtml = slot.source === 'temporary' && slot.task
+        ? `<span class="calendar-read">已读 ${readCounts.get(slot.task.id) || 0} 店</span>`
+        : '';
+      const issuesHtml = slot.issues
+        .map(issue => `<span class="calendar-issue ${issue}">${ISSUE_LABELS[issue]}</span>`)
+        .join('');
+
+      return `
+        <div class="calendar-slot ${slot.issues.length > 0 ? 'has-issue' : ''}">
+          <span class="history-item-slot">${TimeScheduler.getSlotLabel(slot.slotType)}</span>
+          <span class="calendar-task-name"></span>
+          ${sourceHtml}
+          ${readHtml}
+          ${issuesHtml}
+        </div>
+      `;
+    }).join('');
+
+    dayEl.innerHTML = `
+      <div class="calendar-day-header">${day.date} ${WEEKDAY_NAMES[day.weekday] ?? ''}</div>
+      ${slotsHtml}
+    `;
+
+    // Ops-authored text may contain quotes or markup
+    dayEl.querySelectorAll('.calendar-task-name').forEach((nameEl, i) => {
+      nameEl.textContent = day.slots[i]?.task?.task_name || '—';
+    });
+
+    return dayEl;
+  }
+
+  /**
+   * Close calendar panel
+   */
+  private static close(): void {
+    const overlay = this.overlay;
+    if (overlay) {
+      overlay.classList.remove('visible');
+      setTimeout(() => overlay.remove(), 300);
+    }
+    this.overlay = null;
+  }
+}
+
+// Export to window for backward compatibility
+if (typeof window !== 'undefined') {
+  window.TaskCalendarModule = TaskCalendarModule;
+}
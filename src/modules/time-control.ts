@@ -1,7 +1,10 @@
-// Version: 2.0 - Added date control for cross-day testing
+// Version: 2.2 - Window detection uses the brand's slot config instead of hard-coded windows
 // Time Control Module - Developer time simulation with collapsible clock interface
 // Handles: Simulated time state, time and date adjustments, auto-ticking clock, time window boundary detection
 
+import { BusinessDateService } from '@services/business-date.service';
+import { TimeScheduler } from '@modules/time-scheduler';
+import { isTimeInWindow } from '@/utils/time-window';
 
 export class TimeControlModule {
   // State
@@ -11,16 +14,6 @@ export class TimeControlModule {
   private static onTimeWindowChange: (() => Promise<void>) | null = null;
   private static previousSlotType: string | null = null;
 
-  /**
-   * Time window boundaries (HH:MM format)
-   */
-  private static readonly TIME_WINDOWS = {
-    lunch_open: { start: '10:00', end: '11:30' },
-    lunch_close: { start: '13:30', end: '15:30' },
-    dinner_open: { start: '16:00', end: '17:30' },
-    dinner_close: { start: '21:30', end: '01:00' }
-  };
-
   /**
    * Initialize time control panel
    */
@@ -241,32 +234,17 @@ export class TimeControlModule {
   }
 
   /**
-   * Get current slot type based on time
+   * Get current slot type based on time (windows from the brand's slot config)
    */
   private static getCurrentSlotType(): string | null {
     const currentTime = this.getCurrentTime();
-    const timeStr = `${String(currentTime.getHours()).padStart(2, '0')}:${String(currentTime.getMinutes()).padStart(2, '0')}`;
+    const timeStr = `${BusinessDateService.getLocalTime(currentTime).slice(0, 5)}:00`;
 
-    for (const [slotType, window] of Object.entries(this.TIME_WINDOWS)) {
-      if (this.isTimeInWindow(timeStr, window.start, window.end)) {
-        return slotType;
-      }
-    }
+    const config = TimeScheduler.getSlotConfigs().find(c =>
+      isTimeInWindow(timeStr, c.window_start, c.window_end)
+    );
 
-    return null; // Not in any window
-  }
-
-  /**
-   * Check if time is within a window (handles midnight crossing for dinner_close)
-   */
-  private static isTimeInWindow(time: string, start: string, end: string): boolean {
-    if (start < end) {
-      // Normal case: window doesn't cross midnight
-      return time >= start && time < end;
-    } else {
-      // Special case: window crosses midnight (e.g., 21:30-01:00)
-      return time >= start || time < end;
-    }
+    return config ? config.slot_type : null; // null = not in any window
   }
 
   /**
@@ -1,7 +1,10 @@
-// Version: 1.0 - Precise time slot scheduler with preload support
+// Version: 1.4 - Slot list, order and labels come from the brand's slot config
 // This module replaces the 60-second polling with precise setTimeout-based scheduling
 // Triggers callbacks at exact time slot boundaries and provides 5-minute preload warnings
 
+import { BusinessDateService } from '@services/business-date.service';
+import { isTimeInWindow } from '@/utils/time-window';
+import { sortSlotConfigs, getSlotLabel } from '@/utils/time-slots';
 import type { TimeSlotConfig, SlotType } from '@/types/models';
 
 type TimeSlotChangeCallback = (newSlot: SlotType, previousSlot: SlotType | null) => void;
@@ -17,7 +20,7 @@ export class TimeScheduler {
 
   /**
    * Initialize the scheduler with time slot configuration
-   * @param config - Array of time slot configurations (4 slots)
+   * @param config - Array of time slot configurations (any number of slots per brand)
    */
   static init(config: TimeSlotConfig[]): void {
     this.slotConfig = config;
@@ -69,6 +72,35 @@ export class TimeScheduler {
     return this.currentSlot;
   }
 
+  /**
+   * Get configuration for a slot (window, deadline, grace period)
+   * @returns Active config for the slot, or null if not configured
+   */
+  static getSlotConfig(slot: SlotType): TimeSlotConfig | null {
+    return this.slotConfig.find(c => c.is_active && c.slot_type === slot) ?? null;
+  }
+
+  /**
+   * Get all active slot configurations in business-day order
+   */
+  static getSlotConfigs(): TimeSlotConfig[] {
+    return sortSlotConfigs(this.slotConfig, BusinessDateService.getDayCutoff());
+  }
+
+  /**
+   * Get active slot types in business-day order
+   */
+  static getSlotTypes(): SlotType[] {
+    return this.getSlotConfigs().map(c => c.slot_type);
+  }
+
+  /**
+   * Get display label for a slot
+   */
+  static getSlotLabel(slot: SlotType): string {
+    return getSlotLabel(slot, this.slotConfig);
+  }
+
   /**
    * Get information about the next time slot
    * @returns Next slot type and start time, or null if no config available
@@ -77,44 +109,21 @@ export class TimeScheduler {
     if (!this.slotConfig.length) return null;
 
     const now = new Date();
-    const currentTimeStr = now.toTimeString().slice(0, 8); // HH:MM:SS
+    const currentTimeStr = BusinessDateService.getLocalTime(now); // HH:MM:SS (brand-local)
 
     // Find the nearest upcoming slot today
     const sortedConfigs = [...this.slotConfig]
       .filter(c => c.is_active)
       .sort((a, b) => a.window_start.localeCompare(b.window_start));
 
-    for (const config of sortedConfigs) {
-      if (config.window_start > currentTimeStr) {
-        // This slot hasn't started yet today
-        const timeParts = config.window_start.split(':').map(Number);
-        const hours = timeParts[0] ?? 0;
-        const minutes = timeParts[1] ?? 0;
-        const seconds = timeParts[2] ?? 0;
-        const startsAt = new Date(now);
-        startsAt.setHours(hours, minutes, seconds, 0);
-
-        return { slot: config.slot_type, startsAt };
-      }
-    }
-
-    // All slots for today have passed, return tomorrow's first slot
-    if (sortedConfigs.length > 0) {
-      const firstConfig = sortedConfigs[0];
-      if (!firstConfig) return null;
+    // First slot that hasn't started yet today, otherwise tomorrow's first slot
+    const nextConfig = sortedConfigs.find(c => c.window_start > currentTimeStr) ?? sortedConfigs[0];
+    if (!nextConfig) return null;
 
-      const timeParts = firstConfig.window_start.split(':').map(Number);
-      const hours = timeParts[0] ?? 0;
-      const minutes = timeParts[1] ?? 0;
-      const seconds = timeParts[2] ?? 0;
-      const startsAt = new Date(now);
-      startsAt.setDate(startsAt.getDate() + 1); // Tomorrow
-      startsAt.setHours(hours, minutes, seconds, 0);
+    // Offset from the brand-local clock, so the device timezone does not matter
+    const startsAt = new Date(now.getTime() + BusinessDateService.msUntilLocalTime(nextConfig.window_start, now));
 
-      return { slot: firstConfig.slot_type, startsAt };
-    }
-
-    return null;
+    return { slot: nextConfig.slot_type, startsAt };
   }
 
   /**
@@ -133,28 +142,17 @@ export class TimeScheduler {
    * Manually trigger a time slot check (useful for testing and page recovery)
    */
   static checkNow(): void {
-    const now = new Date();
-    const currentTimeStr = now.toTimeString().slice(0, 8);
+    const currentTimeStr = BusinessDateService.getLocalTime();
 
     let newSlot: SlotType | null = null;
 
     for (const config of this.slotConfig) {
       if (!config.is_active) continue;
 
-      const start = config.window_start;
-      const end = config.window_end;
-
-      // Handle midnight crossing case (e.g., 21:30 - 01:00)
-      if (end < start) {
-        if (currentTimeStr >= start || currentTimeStr <= end) {
-          newSlot = config.slot_type;
-          break;
-        }
-      } else {
-        if (currentTimeStr >= start && currentTimeStr <= end) {
-          newSlot = config.slot_type;
-          break;
-        }
+      // Handles midnight crossing case (e.g., 21:30 - 01:00)
+      if (isTimeInWindow(currentTimeStr, config.window_start, config.window_end)) {
+        newSlot = config.slot_type;
+        break;
       }
     }
 
@@ -1,25 +1,40 @@
-// Version: 5.4 - Added map/UI locking when check-in panel is open
+// Version: 6.7 - Checklist task names set as text, not markup
 // UI Module - UI state management and animations
 // Handles: Panel visibility, status bar with business states, animations, restaurant navigation
 
 import { AuthService } from '@services/auth.service';
 import { MapModule } from '@modules/map';
-import type { Restaurant, Task, SlotType, MediaType } from '@/types/models';
-
+import { BusinessDateService } from '@services/business-date.service';
+import { TimeScheduler } from '@modules/time-scheduler';
+import { isTimeInWindow, offsetFromStart } from '@/utils/time-window';
+import { getChecklistProgress, getNextChecklistTask, isRequiredTask } from '@/utils/checklist';
+import { getTaskInputs, INPUT_LABELS } from '@/utils/task-inputs';
+import { AnswerInputModule } from '@modules/answer-input';
+import type { Restaurant, Task, SlotType, MediaType, InputType, StoreClosure } from '@/types/models';
+
+// Input section element per input type
+const INPUT_SECTION_IDS: Record<InputType, string> = {
+  text: 'textInput',
+  image: 'imageInput',
+  voice: 'voiceInput',
+  video: 'videoInput',
+  answer: 'answerInput'
+};
 
 export class UIModule {
+  // Task whose input section is shown (submitted by CheckInModule)
+  private static selectedTask: Task | null = null;
+  // Checklist currently rendered in the panel (re-rendered on task selection)
+  private static checklist: Task[] = [];
+  private static submittedTaskIds: string[] = [];
+
   /**
    * Determine business status based on current time
    * Supports dev time from TimeControlModule
-   * Time windows:
-   * - 10:00-11:30: lunch_open window
-   * - 11:30-13:30: 营业中 (午市)
-   * - 13:30-15:30: lunch_close window
-   * - 15:30-16:00: 营业中 (过渡)
-   * - 16:00-17:30: dinner_open window
-   * - 17:30-21:30: 营业中 (晚市)
-   * - 21:30-01:00: dinner_close window
-   * - 01:00-10:00: 休息中
+   * Uses the brand's slot config (business-day order):
+   * - Inside a slot window: slot label (e.g. 午市开店, 早餐开店)
+   * - Between the first window start and the last window end: 营业中
+   * - Otherwise: 休息中
    */
   private static getBusinessStatus(): { status: string; dotColor: 'green' | 'gray' } {
     // Try to get dev time from TimeControlModule if available
@@ -35,47 +50,28 @@ export class UIModule {
       now = new Date();
     }
 
-    const hours = now.getHours();
-    const minutes = now.getMinutes();
-    const totalMinutes = hours * 60 + minutes;
-
-    // Convert time windows to minutes
-    const lunchOpenStart = 10 * 60; // 10:00
-    const lunchOpenEnd = 11 * 60 + 30; // 11:30
-    const lunchBusinessEnd = 13 * 60 + 30; // 13:30
-    const lunchCloseEnd = 15 * 60 + 30; // 15:30
-    const transitionEnd = 16 * 60; // 16:00
-    const dinnerOpenEnd = 17 * 60 + 30; // 17:30
-    const dinnerBusinessEnd = 21 * 60 + 30; // 21:30
-    const dinnerCloseEnd = 24 * 60 + 60; // 01:00 next day (25:00)
-
-    // Handle time windows
+    const currentTime = `${BusinessDateService.getLocalTime(now).slice(0, 5)}:00`;
+    const dayCutoff = BusinessDateService.getDayCutoff();
+    const configs = TimeScheduler.getSlotConfigs();
+
     // Note: The ● dot is rendered by .status-dot element in HTML, not in the status string
-    if (totalMinutes >= lunchOpenStart && totalMinutes < lunchOpenEnd) {
-      return { status: '午市开店', dotColor: 'green' };
-    } else if (totalMinutes >= lunchOpenEnd && totalMinutes < lunchBusinessEnd) {
-      return { status: '营业中', dotColor: 'green' };
-    } else if (totalMinutes >= lunchBusinessEnd && totalMinutes < lunchCloseEnd) {
-      return { status: '午市闭店', dotColor: 'green' };
-    } else if (totalMinutes >= lunchCloseEnd && totalMinutes < transitionEnd) {
-      return { status: '营业中', dotColor: 'green' };
-    } else if (totalMinutes >= transitionEnd && totalMinutes < dinnerOpenEnd) {
-      return { status: '晚市开店', dotColor: 'green' };
-    } else if (totalMinutes >= dinnerOpenEnd && totalMinutes < dinnerBusinessEnd) {
+    const activeConfig = configs.find(c => isTimeInWindow(currentTime, c.window_start, c.window_end));
+    if (activeConfig) {
+      return { status: TimeScheduler.getSlotLabel(activeConfig.slot_type), dotColor: 'green' };
+    }
+
+    // Open between the day's first window start and last window end (offsets from the day cutoff)
+    const elapsed = offsetFromStart(currentTime, dayCutoff);
+    const starts = configs.map(c => offsetFromStart(c.window_start, dayCutoff));
+    const ends = configs.map(c =>
+      offsetFromStart(c.window_start, dayCutoff) + offsetFromStart(c.window_end, c.window_start)
+    );
+
+    if (configs.length > 0 && elapsed >= Math.min(...starts) && elapsed <= Math.max(...ends)) {
       return { status: '营业中', dotColor: 'green' };
-    } else if (totalMinutes >= dinnerBusinessEnd && totalMinutes < dinnerCloseEnd) {
-      return { status: '晚市闭店', dotColor: 'green' };
-    } else {
-      // 01:00-10:00 or after 01:00 (handle next day)
-      if (totalMinutes >= 60 && totalMinutes < lunchOpenStart) {
-        return { status: '休息中', dotColor: 'gray' };
-      } else if (totalMinutes < 60) {
-        // 00:00-01:00 is still dinner_close window
-        return { status: '晚市闭店', dotColor: 'green' };
-      } else {
-        return { status: '休息中', dotColor: 'gray' };
-      }
     }
+
+    return { status: '休息中', dotColor: 'gray' };
   }
 
   /**
@@ -99,14 +95,55 @@ export class UIModule {
 
   }
 
+  /**
+   * Get the task whose input section is currently shown
+   */
+  static getSelectedTask(): Task | null {
+    return this.selectedTask;
+  }
+
   /**
    * Update check-in panel based on current state
+   * @param checklist - Slot checklist (primary + attached tasks); a single task keeps the plain panel
+   * @param submittedTaskIds - Checklist tasks already submitted for the slot
    */
-  static updateCheckInPanel(isCheckedIn: boolean, currentTask: Task | null): void {
+  static updateCheckInPanel(
+    isCheckedIn: boolean,
+    currentTask: Task | null,
+    closure: StoreClosure | null = null,
+    checklist: Task[] = [],
+    submittedTaskIds: string[] = []
+  ): void {
 
     const panelTitle = document.getElementById('panelTitle');
     const panelSubtitle = document.getElementById('panelSubtitle');
 
+    const previousSelectedId = this.selectedTask?.id;
+    this.selectedTask = null;
+    this.setChecklistVisible(false);
+
+    if (closure && !isCheckedIn) {
+      if (panelTitle) panelTitle.textContent = '今日闭店';
+      if (panelSubtitle) panelSubtitle.textContent = closure.reason || '本时段无需打卡';
+      this.hideAllInputSections();
+      return;
+    }
+
+    // Checklist: keep offering open tasks (bonus ones too) after the required ones are done
+    if (checklist.length > 1) {
+      this.checklist = checklist;
+      this.submittedTaskIds = submittedTaskIds;
+
+      // Stay on the task the user picked while it is still open (e.g. after a live task refresh)
+      const kept = checklist.find(t => t.id === previousSelectedId && !submittedTaskIds.includes(t.id));
+      const next = kept ?? getNextChecklistTask(checklist, submittedTaskIds);
+      if (next) {
+        this.setChecklistVisible(true);
+        this.selectChecklistTask(next);
+        return;
+      }
+    }
+
     if (isCheckedIn) {
       if (panelTitle) panelTitle.textContent = '✓ 已打卡';
       if (panelSubtitle) panelSubtitle.textContent = '今日任务已完成';
@@ -116,25 +153,180 @@ export class UIModule {
 
     // Show task info and appropriate input method
     if (currentTask) {
+      this.selectedTask = currentTask;
 
       if (panelTitle) panelTitle.textContent = currentTask.task_name;
       if (panelSubtitle) panelSubtitle.textContent = currentTask.task_description || '';
-      this.showInputSection(currentTask.media_type);
+      this.showTaskInputs(currentTask);
     } else {
     }
   }
 
+  /**
+   * Show one checklist task's info and input section
+   */
+  private static selectChecklistTask(task: Task): void {
+    this.selectedTask = task;
+
+    const panelTitle = document.getElementById('panelTitle');
+    const panelSubtitle = document.getElementById('panelSubtitle');
+    if (panelTitle) panelTitle.textContent = task.task_name;
+    if (panelSubtitle) panelSubtitle.textContent = task.task_description || '';
+
+    this.showTaskInputs(task);
+    this.renderChecklist();
+  }
+
+  /**
+   * Render checklist progress and items (done / selected / required or bonus)
+   */
+  private static renderChecklist(): void {
+    const progressEl = document.getElementById('checklistProgress');
+    const itemsEl = document.getElementById('checklistItems');
+    const skipBtn = document.getElementById('checklistSkipBtn');
+    if (!itemsEl) return;
+
+    const progress = getChecklistProgress(this.checklist, this.submittedTaskIds);
+    if (progressEl) {
+      progressEl.textContent = progress.complete
+        ? `已完成 ${progress.done}/${progress.total} · 必做任务已完成`
+        : `已完成 ${progress.done}/${progress.total} · 必做 ${progress.requiredDone}/${progress.requiredTotal}`;
+    }
+
+    // Only bonus tasks left: allow leaving the panel
+    if (skipBtn) skipBtn.style.display = progress.complete ? 'block' : 'none';
+
+    itemsEl.innerHTML = '';
+    this.checklist.forEach(task => {
+      const isDone = this.submittedTaskIds.includes(task.id);
+      const isSelected = this.selectedTask?.id === task.id;
+      const isRequired = isRequiredTask(task);
+
+      const item = document.createElement('div');
+      item.className = `checklist-item ${isDone ? 'done' : ''} ${isSelected ? 'selected' : ''} ${isRequired ? '' : 'bonus'}`;
+      item.innerHTML = `
+        <span class="checklist-item-status">${isDone ? '✓' : '○'}</span>
+        <span class="checklist-item-name"></span>
+        <span class="checklist-item-tag">${isRequired ? '必做' : '加分'}</span>
+      `;
+      // Ops-authored text may contain quotes or markup
+      item.querySelector('.checklist-item-name')!.textContent = task.task_name;
+
+      if (!isDone && !isSelected) {
+        item.addEventListener('click', () => {
+          // Drop media picked for the previous task
+          window.CheckInModule?.reset();
+          this.selectChecklistTask(task);
+        });
+      }
+
+      itemsEl.appendChild(item);
+    });
+  }
+
+  /**
+   * Show or hide the checklist block and its skip button
+   */
+  private static setChecklistVisible(visible: boolean): void {
+    const checklistEl = document.getElementById('checklist');
+    if (checklistEl) checklistEl.style.display = visible ? 'block' : 'none';
+
+    if (!visible) {
+      const skipBtn = document.getElementById('checklistSkipBtn');
+      if (skipBtn) skipBtn.style.display = 'none';
+    }
+  }
+
+  /**
+   * Setup checklist skip button (leave the panel when only bonus tasks are left)
+   */
+  static setupChecklistSkipButton(): void {
+    const skipBtn = document.getElementById('checklistSkipBtn');
+    skipBtn?.addEventListener('click', () => {
+      MapModule.setBlur(false);
+      this.hideCheckInPanel();
+    });
+  }
+
+  /**
+   * Set up pending upload badge (tap retries every queued check-in)
+   */
+  static setupPendingBadge(onRetry: () => void): void {
+    const badge = document.getElementById('pendingBadge');
+    badge?.addEventListener('click', () => onRetry());
+  }
+
+  /**
+   * Show number of queued check-ins, hidden when the queue is empty
+   * @param failed - Last upload attempt failed (shown in the error color)
+   * @param rejected - Check-ins the server refused, which are no longer retried
+   */
+  static updatePendingBadge(count: number, failed: boolean, rejected: number = 0): void {
+    const badge = document.getElementById('pendingBadge');
+    if (!badge) return;
+
+    badge.style.display = count > 0 ? 'block' : 'none';
+    badge.textContent = rejected > 0
+      ? `待上传 ${count} · ${rejected} 条需处理`
+      : failed ? `待上传 ${count} · 点击重试` : `待上传 ${count}`;
+    badge.classList.toggle('failed', failed || rejected > 0);
+  }
+
+  /**
+   * Show the input sections a task asks for
+   * Composite tasks show every input in declared order, labelled required/optional, with one shared submit
+   */
+  static showTaskInputs(task: Task): void {
+    const inputs = getTaskInputs(task);
+    AnswerInputModule.render(inputs.some(input => input.type === 'answer') ? task.answer_schema : null);
+    window.CheckInModule?.showForecastHint(task);
+
+    if (inputs.length <= 1) {
+      this.showInputSection(inputs[0]?.type ?? task.media_type);
+      return;
+    }
+
+    this.hideAllInputSections();
+    const inputArea = document.getElementById('inputArea');
+    inputArea?.classList.add('composite');
+
+    inputs.forEach(input => {
+      const sectionId = INPUT_SECTION_IDS[input.type];
+      const section = document.getElementById(sectionId);
+      if (!section) return;
+
+      // Re-append in declared order (e.g. photo before the comment)
+      inputArea?.appendChild(section);
+      section.style.display = 'flex';
+
+      const label = document.getElementById(`${sectionId}Label`);
+      if (label) label.textContent = `${INPUT_LABELS[input.type]}${input.required ? '（必填）' : '（选填）'}`;
+    });
+
+    const submitBtn = document.getElementById('submitCompositeBtn');
+    if (submitBtn) {
+      inputArea?.appendChild(submitBtn);
+      submitBtn.style.display = 'block';
+    }
+  }
+
   /**
    * Hide all input sections
    */
   static hideAllInputSections(): void {
+    document.getElementById('inputArea')?.classList.remove('composite');
+    const forecastHint = document.getElementById('forecastHint');
+    if (forecastHint) forecastHint.style.display = 'none';
+    const submitBtn = document.getElementById('submitCompositeBtn');
+    if (submitBtn) submitBtn.style.display = 'none';
 
     const sections = [
       'notificationInput',
       'textInput',
       'imageInput',
       'voiceInput',
-      'videoInput'
+      'videoInput',
+      'answerInput'
     ];
 
     sections.forEach(sectionId => {
@@ -148,15 +340,12 @@ export class UIModule {
   /**
    * Show specific input section based on media type
    */
-  static showInputSection(mediaType: MediaType): void {
+  static showInputSection(mediaType: MediaType | InputType): void {
     this.hideAllInputSections();
 
-    const sectionMap: Record<MediaType, string> = {
+    const sectionMap: Record<MediaType | InputType, string> = {
       'notification': 'notificationInput',
-      'text': 'textInput',
-      'image': 'imageInput',
-      'voice': 'voiceInput',
-      'video': 'videoInput'
+      ...INPUT_SECTION_IDS
     };
 
     const sectionId = sectionMap[mediaType];
@@ -195,6 +384,9 @@ export class UIModule {
    */
   static hideCheckInPanel(): void {
 
+    // A clip still being re-encoded would land in a panel that is gone
+    window.CheckInModule?.cancelVideoCompression();
+
     const panel = document.getElementById('checkinPanel') as HTMLElement;
     if (panel) {
       panel.classList.remove('visible');
@@ -282,12 +474,17 @@ export class UIModule {
       const manager = restaurant.master_employee?.[0] || { employee_name: restaurant.restaurant_name };
       const initials = manager.employee_name?.substring(0, 2) || restaurant.restaurant_name?.substring(0, 2) || '店';
 
+      // Late check-ins get their own status marker
+      const isLate = Boolean(restaurant.checked) && MapModule.isLateCheckIn(restaurant.checkInData);
+      const isClosed = MapModule.isClosedStore(restaurant);
+      const statusIcon = restaurant.checked ? (isLate ? '⏰' : '✓') : (isClosed ? '休' : '○');
+
       const navItem = document.createElement('div');
-      navItem.className = `nav-item ${isCurrentUser ? 'current' : ''}`;
+      navItem.className = `nav-item ${isCurrentUser ? 'current' : ''} ${isLate ? 'late' : ''} ${isClosed ? 'closed' : ''}`;
       navItem.innerHTML = `
         <div class="nav-item-avatar" data-initials="${initials}">${initials}</div>
         <span class="nav-item-name">${restaurant.restaurant_name}</span>
-        <span class="nav-item-status">${restaurant.checked ? '✓' : '○'}</span>
+        <span class="nav-item-status ${isLate ? 'late' : ''} ${isClosed ? 'closed' : ''}">${statusIcon}</span>
       `;
 
       navItem.addEventListener('click', () => {
@@ -0,0 +1,154 @@
+// Version: 1.1 - Cancel disabled while the check-in record is being saved
+// Upload Progress Module - Progress card for the check-in being uploaded
+// Handles: Per-file byte progress, overall percentage, cancel, retrying failed files one by one
+
+import { SubmissionQueueService } from '@services/submission-queue.service';
+import type { UploadFileProgress } from '@/types/models';
+
+export class UploadProgressModule {
+  // Queued submission shown in the card (null = hidden)
+  private static queueId: string | null = null;
+  // Restores the check-in panel after the user cancels
+  private static onCancel: (() => void) | null = null;
+
+  /**
+   * Wire card buttons and follow queue progress
+   */
+  static initialize(): void {
+    const cancelBtn = document.getElementById('uploadProgressCancel');
+    cancelBtn?.addEventListener('click', () => this.cancel());
+
+    const closeBtn = document.getElementById('uploadProgressClose');
+    closeBtn?.addEventListener('click', () => this.hide());
+
+    SubmissionQueueService.onProgress((id, files) => {
+      if (id === this.queueId) this.render(files);
+    });
+    SubmissionQueueService.onSubmitted((pending) => {
+      if (pending.id === this.queueId) this.hide();
+    });
+  }
+
+  /**
+   * Show the card for a submission that is being uploaded
+   * @param onCancel - Called after the user cancelled (submission is already dropped)
+   */
+  static show(queueId: string, onCancel: () => void): void {
+    this.queueId = queueId;
+    this.onCancel = onCancel;
+
+    const card = document.getElementById('uploadProgress');
+    const titleEl = document.getElementById('uploadProgressTitle');
+    const closeBtn = document.getElementById('uploadProgressClose');
+    if (titleEl) titleEl.textContent = '上传中';
+    if (closeBtn) closeBtn.style.display = 'none';
+    if (card) card.style.display = 'block';
+
+    this.render(SubmissionQueueService.getProgress(queueId));
+  }
+
+  /**
+   * Keep the card open after a failed upload so failed files can be retried one by one
+   * @param onCancel - Replaces the cancel callback (the check-in panel has moved on by now)
+   */
+  static showFailed(onCancel: () => void): void {
+    if (!this.queueId) return;
+    this.onCancel = onCancel;
+
+    const titleEl = document.getElementById('uploadProgressTitle');
+    const closeBtn = document.getElementById('uploadProgressClose');
+    if (titleEl) titleEl.textContent = '部分文件上传失败';
+    if (closeBtn) closeBtn.style.display = 'inline-block';
+
+    this.render(SubmissionQueueService.getProgress(this.queueId));
+  }
+
+  /**
+   * Hide the card (the submission stays queued unless it was sent or cancelled)
+   */
+  static hide(): void {
+    this.queueId = null;
+    this.onCancel = null;
+
+    const card = document.getElementById('uploadProgress');
+    if (card) card.style.display = 'none';
+  }
+
+  /**
+   * Render overall percentage and one row per file
+   */
+  private static render(files: UploadFileProgress[]): void {
+    const percentEl = document.getElementById('uploadProgressPercent');
+    const fillEl = document.getElementById('uploadProgressFill');
+    const listEl = document.getElementById('uploadProgressFiles');
+    if (!listEl) return;
+
+    const total = files.reduce((sum, f) => sum + f.bytesTotal, 0);
+    const sent = files.reduce((sum, f) => sum + Math.min(f.bytesSent, f.bytesTotal), 0);
+    const percent = total > 0 ? Math.floor((sent / total) * 100) : 0;
+    if (percentEl) percentEl.textContent = `${percent}%`;
+    if (fillEl) fillEl.style.width = `${percent}%`;
+
+    // Once the record insert starts the check-in may already be on the server
+    const cancelBtn = document.getElementById('uploadProgressCancel') as HTMLButtonElement | null;
+    const inserting = !!this.queueId && SubmissionQueueService.isInserting(this.queueId);
+    if (cancelBtn) {
+      cancelBtn.disabled = inserting;
+      cancelBtn.textContent = inserting ? '正在保存打卡…' : '取消上传';
+    }
+
+    listEl.innerHTML = '';
+    files.forEach((file, index) => {
+      const filePercent = file.bytesTotal > 0 ? Math.floor((file.bytesSent / file.bytesTotal) * 100) : 0;
+      const statusText = file.status === 'done'
+        ? '完成'
+        : file.status === 'failed'
+          ? '失败'
+          : file.status === 'uploading'
+            ? `${filePercent}%`
+            : '等待';
+
+      const row = document.createElement('div');
+      row.className = `upload-file ${file.status}`;
+      row.innerHTML = `
+        <span class="upload-file-name">${index + 1}. ${(file.bytesTotal / 1024 / 1024).toFixed(1)}MB</span>
+        <span class="upload-file-bar"><span class="upload-file-fill" style="width: ${filePercent}%"></span></span>
+        <span class="upload-file-status">${statusText}</span>
+      `;
+      if (file.error) row.title = file.error;
+
+      if (file.status === 'failed') {
+        const retryBtn = document.createElement('button');
+        retryBtn.className = 'upload-file-retry';
+        retryBtn.textContent = '重试';
+        retryBtn.addEventListener('click', () => {
+          if (this.queueId) SubmissionQueueService.retryFile(this.queueId, index);
+        });
+        row.appendChild(retryBtn);
+      }
+
+      listEl.appendChild(row);
+    });
+  }
+
+  /**
+   * Cancel the upload: stop sending, drop the queued check-in, give the panel back
+   * Too late once the record is being saved; the card then stays until it is sent
+   */
+  private static async cancel(): Promise<void> {
+    const queueId = this.queueId;
+    const onCancel = this.onCancel;
+    if (!queueId) return;
+
+    const cancelled = await SubmissionQueueService.cancel(queueId);
+    if (!cancelled) return;
+
+    this.hide();
+    onCancel?.();
+  }
+}
+
+// Export to window for backward compatibility
+if (typeof window !== 'undefined') {
+  window.UploadProgressModule = UploadProgressModule;
+}
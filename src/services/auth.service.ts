@@ -1,8 +1,8 @@
-// Version: 3.3 - Two-query approach for reliable brand_id fetch at login
+// Version: 3.7 - Task calendar preview permission from kbd_role_permission instead of a role list
 // Authentication service with type safety
 
 import { supabaseClient } from './supabase';
-import type { Employee, LoginResponse } from '@/types/models';
+import type { Employee, LoginResponse, RolePermission } from '@/types/models';
 
 export class AuthService {
   private static readonly STORAGE_KEY = 'currentUser';
@@ -45,6 +45,17 @@ export class AuthService {
       } catch {
       }
 
+      // 3. Permissions granted to the role (none when the lookup fails)
+      let permissions: RolePermission[] = [];
+      try {
+        const { data: permData } = await supabaseClient
+          .from('kbd_role_permission')
+          .select('permission')
+          .eq('role_code', rawEmployee.role_code);
+        permissions = ((permData || []) as any[]).map(p => p.permission as RolePermission);
+      } catch {
+      }
+
       // Build employee object with brand_id
       const employee: Employee = {
         id: rawEmployee.id,
@@ -58,6 +69,7 @@ export class AuthService {
         login_failed_count: rawEmployee.login_failed_count,
         profile_photo_url: rawEmployee.profile_photo_url,
         brand_id: brandId, // Cache brand_id for faster page loads
+        permissions,
         created_at: rawEmployee.created_at,
         updated_at: rawEmployee.updated_at
       };
@@ -101,6 +113,28 @@ export class AuthService {
   static isAuthenticated(): boolean {
     return !!this.getCurrentUser();
   }
+
+  /**
+   * Check if the user's role has a permission (kbd_role_permission, loaded at login)
+   * Only decides what the UI offers; kbd_review_makeup checks its permission again on the server
+   */
+  static hasPermission(permission: RolePermission, user: Employee | null = this.getCurrentUser()): boolean {
+    return !!user?.permissions?.includes(permission);
+  }
+
+  /**
+   * Check if user can review make-up check-ins
+   */
+  static canReviewMakeUp(user: Employee | null = this.getCurrentUser()): boolean {
+    return this.hasPermission('review_makeup', user);
+  }
+
+  /**
+   * Check if user can preview the task rotation calendar
+   */
+  static canPreviewTaskCalendar(user: Employee | null = this.getCurrentUser()): boolean {
+    return this.hasPermission('preview_task_calendar', user);
+  }
 }
 
 // Expose to window for backward compatibility with HTML onclick handlers
@@ -0,0 +1,169 @@
+// Version: 1.0 - Business date and brand-local time helpers
+// Maps an instant to the brand's business day (timezone + day cutoff), so check-ins after midnight
+// (e.g. dinner_close at 00:30) stay on the day they belong to
+
+import type { Brand } from '@/types/models';
+
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+const DEFAULT_DAY_CUTOFF = '05:00:00';
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+interface LocalDateTimeParts {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+  second: string;
+}
+
+export class BusinessDateService {
+  private static timeZone: string = DEFAULT_TIMEZONE;
+  private static dayCutoff: string = DEFAULT_DAY_CUTOFF;
+  private static formatter: Intl.DateTimeFormat | null = null;
+
+  /**
+   * Apply brand settings (called once the user's brand is known)
+   * Missing values fall back to Asia/Shanghai and a 05:00 cutoff
+   */
+  static configure(brand: Pick<Brand, 'timezone' | 'business_day_cutoff'> | null): void {
+    this.timeZone = brand?.timezone || DEFAULT_TIMEZONE;
+    this.dayCutoff = this.normalizeTime(brand?.business_day_cutoff || DEFAULT_DAY_CUTOFF);
+    this.formatter = null;
+  }
+
+  /**
+   * Get configured IANA timezone
+   */
+  static getTimeZone(): string {
+    return this.timeZone;
+  }
+
+  /**
+   * Get configured day cutoff (HH:MM:SS)
+   */
+  static getDayCutoff(): string {
+    return this.dayCutoff;
+  }
+
+  /**
+   * Get brand-local time of day as HH:MM:SS
+   */
+  static getLocalTime(now: Date = new Date()): string {
+    const parts = this.getLocalParts(now);
+    return `${parts.hour}:${parts.minute}:${parts.second}`;
+  }
+
+  /**
+   * Get brand-local calendar date as YYYY-MM-DD (ignores the day cutoff)
+   */
+  static getCalendarDate(now: Date = new Date()): string {
+    const parts = this.getLocalParts(now);
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  /**
+   * Get business date as YYYY-MM-DD
+   * Before the day cutoff, the instant still belongs to the previous business day
+   */
+  static getBusinessDate(now: Date = new Date()): string {
+    const calendarDate = this.getCalendarDate(now);
+    if (this.getLocalTime(now) < this.dayCutoff) {
+      return this.addDays(calendarDate, -1);
+    }
+    return calendarDate;
+  }
+
+  /**
+   * Get weekday (0=Sunday, 6=Saturday) of a YYYY-MM-DD date
+   */
+  static getWeekday(date: string): number {
+    return this.parseDate(date).getUTCDay();
+  }
+
+  /**
+   * Add (or subtract) days to a YYYY-MM-DD date
+   */
+  static addDays(date: string, days: number): string {
+    const d = this.parseDate(date);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0]!;
+  }
+
+  /**
+   * Milliseconds from now until the next time the brand-local clock shows the given time
+   * @param time - Target time HH:MM[:SS]
+   */
+  static msUntilLocalTime(time: string, now: Date = new Date()): number {
+    const target = this.toSeconds(this.normalizeTime(time));
+    const current = this.toSeconds(this.getLocalTime(now));
+
+    let diff = target - current;
+    if (diff <= 0) {
+      diff += SECONDS_PER_DAY;
+    }
+
+    return diff * 1000 - now.getMilliseconds();
+  }
+
+  /**
+   * Format instant into brand-local parts (24-hour clock)
+   */
+  private static getLocalParts(now: Date): LocalDateTimeParts {
+    if (!this.formatter) {
+      this.formatter = new Intl.DateTimeFormat('en-CA', {
+        timeZone: this.timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23'
+      });
+    }
+
+    const parts: Record<string, string> = {};
+    this.formatter.formatToParts(now).forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+    return {
+      year: parts.year ?? '1970',
+      month: parts.month ?? '01',
+      day: parts.day ?? '01',
+      // Some engines still emit "24" for midnight
+      hour: parts.hour === '24' ? '00' : (parts.hour ?? '00'),
+      minute: parts.minute ?? '00',
+      second: parts.second ?? '00'
+    };
+  }
+
+  /**
+   * Parse YYYY-MM-DD as a UTC midnight Date (timezone-independent date arithmetic)
+   */
+  private static parseDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, day ?? 1));
+  }
+
+  /**
+   * Normalize HH:MM or HH:MM:SS to HH:MM:SS
+   */
+  private static normalizeTime(time: string): string {
+    return time.length === 5 ? `${time}:00` : time;
+  }
+
+  /**
+   * Convert HH:MM:SS to seconds since midnight
+   */
+  private static toSeconds(time: string): number {
+    const [hours, minutes, seconds] = time.split(':').map(Number);
+    return (hours ?? 0) * 3600 + (minutes ?? 0) * 60 + (seconds ?? 0);
+  }
+}
+
+// Expose to window for debugging
+if (typeof window !== 'undefined') {
+  window.BusinessDateService = BusinessDateService;
+}
@@ -1,11 +1,12 @@
-// Version: 1.1 - Fixed time_slot_config key type mismatch (number vs string)
+// Version: 1.6 - Pending check-in store for the offline submission queue
 // IndexedDB cache service for KBD application
-// Provides persistent caching for restaurants, employees, tasks, check-in records, time configs, and avatars
+// Provides persistent caching for restaurants, employees, tasks, check-in records, time configs, avatars and queued check-ins
 
-import type { Restaurant, Employee, Task, CheckInRecord, TimeSlotConfig } from '@/types/models';
+import { BusinessDateService } from './business-date.service';
+import type { Restaurant, Employee, Task, CheckInRecord, TimeSlotConfig, PendingCheckIn } from '@/types/models';
 
 const DB_NAME = 'KBDCache';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 // Store names
 const STORES = {
@@ -15,7 +16,8 @@ const STORES = {
   DAILY_TASKS: 'daily_tasks',
   CHECK_IN_RECORDS: 'check_in_records',
   TIME_SLOT_CONFIG: 'time_slot_config',
-  AVATARS: 'avatars'
+  AVATARS: 'avatars',
+  PENDING_CHECK_INS: 'pending_check_ins'
 } as const;
 
 interface CachedRestaurant extends Restaurant {
@@ -27,9 +29,10 @@ interface CachedEmployee extends Employee {
 }
 
 interface DailyTaskCache {
-  key: string; // Format: ${date}_${brandId}_${slotType}
+  key: string; // Format: ${date}_${brandId}_${slotType}[_${restaurantId}]
   date: string;
   brand_id: number;
+  restaurant_id: string | null; // null = brand-wide entry
   slot_type: string;
   task: Task;
   cached_at: number;
@@ -42,7 +45,9 @@ interface CheckInRecordsCache {
 }
 
 interface TimeSlotConfigCache {
+  key: string; // Format: ${brandId}_${restaurantId}
   brand_id: number;
+  restaurant_id: string;
   config: TimeSlotConfig[];
   cached_at: number;
 }
@@ -108,9 +113,14 @@ class CacheService {
             db.createObjectStore(STORES.CHECK_IN_RECORDS, { keyPath: 'restaurant_id' });
           }
 
-          // Create time_slot_config store
+          // v1 keyed time_slot_config by brand_id only; drop it so stores get their own entry
+          if (event.oldVersion < 2 && db.objectStoreNames.contains(STORES.TIME_SLOT_CONFIG)) {
+            db.deleteObjectStore(STORES.TIME_SLOT_CONFIG);
+          }
+
+          // Create time_slot_config store (composite key: brand_restaurant)
           if (!db.objectStoreNames.contains(STORES.TIME_SLOT_CONFIG)) {
-            db.createObjectStore(STORES.TIME_SLOT_CONFIG, { keyPath: 'brand_id' });
+            db.createObjectStore(STORES.TIME_SLOT_CONFIG, { keyPath: 'key' });
           }
 
           // Create avatars store
@@ -118,6 +128,11 @@ class CacheService {
             db.createObjectStore(STORES.AVATARS, { keyPath: 'employee_id' });
           }
 
+          // Create pending_check_ins store (offline submission queue, not a cache: never cleared automatically)
+          if (!db.objectStoreNames.contains(STORES.PENDING_CHECK_INS)) {
+            db.createObjectStore(STORES.PENDING_CHECK_INS, { keyPath: 'id' });
+          }
+
         };
       } catch (error) {
         reject(error);
@@ -343,12 +358,22 @@ class CacheService {
 
   // ==================== Task Cache ====================
 
+  /**
+   * Build daily task cache key
+   * Brand-wide entries omit the restaurant suffix
+   */
+  private static getDailyTaskKey(date: string, brandId: number, slotType: string, restaurantId: string | null): string {
+    const base = `${date}_${brandId}_${slotType}`;
+    return restaurantId ? `${base}_${restaurantId}` : base;
+  }
+
   /**
    * Get cached daily task for specific date, brand, and slot
+   * @param restaurantId - If set, reads the restaurant-specific entry instead of the brand-wide one
    */
-  static async getDailyTask(date: string, brandId: number, slotType: string): Promise<Task | null> {
+  static async getDailyTask(date: string, brandId: number, slotType: string, restaurantId: string | null = null): Promise<Task | null> {
     try {
-      const key = `${date}_${brandId}_${slotType}`;
+      const key = this.getDailyTaskKey(date, brandId, slotType, restaurantId);
       const cached = await this.get<DailyTaskCache>(STORES.DAILY_TASKS, key);
       if (cached) {
         const age = Date.now() - cached.cached_at;
@@ -362,14 +387,16 @@ class CacheService {
 
   /**
    * Cache daily task for specific date, brand, and slot
+   * @param restaurantId - If set, writes a restaurant-specific entry instead of the brand-wide one
    */
-  static async setDailyTask(date: string, brandId: number, slotType: string, task: Task): Promise<void> {
+  static async setDailyTask(date: string, brandId: number, slotType: string, task: Task, restaurantId: string | null = null): Promise<void> {
     try {
-      const key = `${date}_${brandId}_${slotType}`;
+      const key = this.getDailyTaskKey(date, brandId, slotType, restaurantId);
       const cached: DailyTaskCache = {
         key,
         date,
         brand_id: brandId,
+        restaurant_id: restaurantId,
         slot_type: slotType,
         task,
         cached_at: Date.now()
@@ -381,6 +408,35 @@ class CacheService {
     }
   }
 
+  /**
+   * Remove cached daily tasks that a task pool change may affect
+   * - Temporary task: entries for its execute_date + slot (a store task only touches that store's entry)
+   * - Routine task: every entry of its brand, since the seeded pick and cooldown replay use the whole pool
+   * - Global task, or a row without brand info (e.g. DELETE payloads carry only the id): every entry
+   * @returns Number of entries removed
+   */
+  static async evictDailyTasks(task: Partial<Task>): Promise<number> {
+    try {
+      const entries = await this.getAll<DailyTaskCache>(STORES.DAILY_TASKS);
+      const hasScope = task.brand_id !== undefined && task.restaurant_id !== undefined;
+
+      const affected = entries.filter(entry => {
+        if (!hasScope || task.brand_id === null) return true;
+        if (entry.brand_id !== task.brand_id) return false;
+        if (task.is_routine !== false) return true;
+
+        if (entry.date !== task.execute_date || entry.slot_type !== task.execute_slot) return false;
+        // Store task: only that store's entry; brand task: brand entry and every store entry
+        return !task.restaurant_id || entry.restaurant_id === task.restaurant_id;
+      });
+
+      await Promise.all(affected.map(entry => this.delete(STORES.DAILY_TASKS, entry.key)));
+      return affected.length;
+    } catch (error) {
+      return 0;
+    }
+  }
+
   // ==================== Check-in Records Cache ====================
 
   /**
@@ -447,25 +503,38 @@ class CacheService {
     }
   }
 
-  // ==================== Time Slot Config Cache ====================
+  // ==================== Pending Check-in Queue ====================
 
   /**
-   * Get cached time slot config for a brand
-   * Note: Uses numeric key directly to match IndexedDB keyPath type
+   * Get queued check-ins, oldest first
    */
-  static async getTimeSlotConfig(brandId: number): Promise<TimeSlotConfig[] | null> {
-    try {
-      // Use numeric key directly - IndexedDB keyPath is brand_id (number)
-      const db = await this.ensureDB();
-      const cached = await new Promise<TimeSlotConfigCache | null>((resolve, reject) => {
-        const transaction = db.transaction(STORES.TIME_SLOT_CONFIG, 'readonly');
-        const store = transaction.objectStore(STORES.TIME_SLOT_CONFIG);
-        const request = store.get(brandId); // Use number directly, not string!
+  static async getPendingCheckIns(): Promise<PendingCheckIn[]> {
+    const pending = await this.getAll<PendingCheckIn>(STORES.PENDING_CHECK_INS);
+    return pending.sort((a, b) => a.queued_at - b.queued_at);
+  }
 
-        request.onsuccess = () => resolve(request.result || null);
-        request.onerror = () => reject(request.error);
-      });
+  /**
+   * Add or update a queued check-in (files are stored as blobs)
+   */
+  static async setPendingCheckIn(pending: PendingCheckIn): Promise<void> {
+    await this.set(STORES.PENDING_CHECK_INS, pending.id, pending);
+  }
+
+  /**
+   * Remove a queued check-in once it is submitted
+   */
+  static async removePendingCheckIn(id: string): Promise<void> {
+    await this.delete(STORES.PENDING_CHECK_INS, id);
+  }
+
+  // ==================== Time Slot Config Cache ====================
 
+  /**
+   * Get cached time slot config for a restaurant (already resolved against brand defaults)
+   */
+  static async getTimeSlotConfig(brandId: number, restaurantId: string): Promise<TimeSlotConfig[] | null> {
+    try {
+      const cached = await this.get<TimeSlotConfigCache>(STORES.TIME_SLOT_CONFIG, `${brandId}_${restaurantId}`);
       if (cached) {
         const age = Date.now() - cached.cached_at;
         return cached.config;
@@ -477,28 +546,19 @@ class CacheService {
   }
 
   /**
-   * Cache time slot config for a brand
-   * Note: Uses numeric brand_id as keyPath
+   * Cache resolved time slot config for a restaurant
    */
-  static async setTimeSlotConfig(brandId: number, config: TimeSlotConfig[]): Promise<void> {
+  static async setTimeSlotConfig(brandId: number, restaurantId: string, config: TimeSlotConfig[]): Promise<void> {
     try {
       const cached: TimeSlotConfigCache = {
-        brand_id: brandId, // Numeric key for IndexedDB keyPath
+        key: `${brandId}_${restaurantId}`,
+        brand_id: brandId,
+        restaurant_id: restaurantId,
         config,
         cached_at: Date.now()
       };
 
-      // Use db.put directly with numeric key
-      const db = await this.ensureDB();
-      await new Promise<void>((resolve, reject) => {
-        const transaction = db.transaction(STORES.TIME_SLOT_CONFIG, 'readwrite');
-        const store = transaction.objectStore(STORES.TIME_SLOT_CONFIG);
-        const request = store.put(cached);
-
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-      });
-
+      await this.set(STORES.TIME_SLOT_CONFIG, cached.key, cached);
     } catch (error) {
       throw error;
     }
@@ -527,7 +587,7 @@ class CacheService {
    */
   static async setAvatarBlob(employeeId: string, blob: Blob): Promise<string> {
     try {
-      const today = new Date().toISOString().split('T')[0]!; // Format: YYYY-MM-DD
+      const today = BusinessDateService.getBusinessDate(); // Format: YYYY-MM-DD
 
       const cached: AvatarCache = {
         employee_id: employeeId,
@@ -556,7 +616,7 @@ class CacheService {
         return false;
       }
 
-      const today = new Date().toISOString().split('T')[0]; // Format: YYYY-MM-DD
+      const today = BusinessDateService.getBusinessDate(); // Format: YYYY-MM-DD
       return cached.checked_date === today;
     } catch (error) {
       return false;
@@ -573,7 +633,7 @@ class CacheService {
         return;
       }
 
-      const today = new Date().toISOString().split('T')[0]!; // Format: YYYY-MM-DD
+      const today = BusinessDateService.getBusinessDate(); // Format: YYYY-MM-DD
       cached.checked_date = today;
 
       await this.set(STORES.AVATARS, employeeId, cached);
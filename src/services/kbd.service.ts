@@ -1,14 +1,46 @@
-// Version: 4.8 - Added timeout and better error handling for media uploads
+// Version: 7.7 - Only a 409 on upload creation counts as an earlier finished upload
 // KBD business logic service with type safety
 
-import { supabaseClient } from './supabase';
+import * as tus from 'tus-js-client';
+import { supabaseClient, supabaseUrl, supabaseAnonKey } from './supabase';
 import { CacheService } from './cache.service';
-import { selectDailyTask } from '@/utils/seeded-random';
-import type { Task, Restaurant, SlotType, CheckInRecord } from '@/types/models';
+import { BusinessDateService } from './business-date.service';
+import { resolveTemporaryTask, resolveRoutineTask, pickByScope, getTemporaryFetchStart } from '@/utils/task-resolver';
+import type { TaskResolutionContext } from '@/utils/task-resolver';
+import { isTimeInWindow, hasWindowEnded } from '@/utils/time-window';
+import { sortSlotConfigs, getPreviousSlot, resolveSlotConfigs } from '@/utils/time-slots';
+import { buildTaskCalendar } from '@/utils/task-calendar';
+import { findClosure, isClosed } from '@/utils/closures';
+import { buildChecklist, isSlotComplete } from '@/utils/checklist';
+import { scoreForecast, averageAccuracy } from '@/utils/forecast';
+import type { ChecklistTaskRef } from '@/utils/checklist';
+import type { TaskCalendarDay } from '@/utils/task-calendar';
+import type { Task, Restaurant, SlotType, CheckInRecord, Brand, TimeSlotConfig, MissedSlot, StoreClosure, TaskAnnouncementAck, CaptureTimePolicy, WatermarkStyle, ForecastAccuracySummary, TaskAnswer, Employee } from '@/types/models';
+
+// Past days a store can make up when the brand does not configure makeup_window_days
+const DEFAULT_MAKEUP_WINDOW_DAYS = 3;
+// Allowed check-in distance from the store when the brand does not configure geofence_radius_m
+const DEFAULT_GEOFENCE_RADIUS_M = 300;
+// Running forecast accuracy looks back this many business days
+const FORECAST_ACCURACY_DAYS = 30;
+
+// Resumable media uploads: Supabase Storage only accepts 6MB TUS chunks
+const UPLOAD_CHUNK_SIZE_BYTES = 6 * 1024 * 1024;
+// Retries inside one upload attempt (network switches); the submission queue retries after that
+const UPLOAD_RETRY_DELAYS_MS = [0, 3000, 5000, 10000, 20000];
+
+export interface UploadMediaOptions {
+  capturedAt?: Date; // When the check-in was made (queued uploads run later), decides the date folder
+  fileKey?: string; // Stable file name part (queue id + index); the same key resumes the same upload
+  onProgress?: (bytesSent: number, bytesTotal: number) => void;
+  signal?: AbortSignal; // Aborting stops the upload (callers check signal.aborted on rejection)
+}
 
 export class KBDService {
   // In-memory cache for brand_id lookups (restaurant_id -> brand_id)
   private static brandIdCache: Map<string, number> = new Map();
+  // In-memory cache for brand settings (brand_id -> Brand)
+  private static brandCache: Map<number, Brand> = new Map();
 
   /**
    * Get brand_id for a restaurant (cached)
@@ -42,30 +74,63 @@ export class KBDService {
   static setBrandIdCache(restaurantId: string, brandId: number): void {
     this.brandIdCache.set(restaurantId, brandId);
   }
+
+  /**
+   * Get brand settings (cached in memory)
+   */
+  static async getBrand(brandId: number): Promise<Brand> {
+    const cached = this.brandCache.get(brandId);
+    if (cached) {
+      return cached;
+    }
+
+    const { data: brandData, error } = await supabaseClient
+      .from('master_brand')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (error) throw error;
+    if (!brandData) throw new Error('Brand not found');
+
+    const brand = brandData as unknown as Brand;
+    this.brandCache.set(brandId, brand);
+    return brand;
+  }
+
   /**
    * Get today's task for a specific restaurant and slot
    * Uses IndexedDB cache and seeded random for consistency across clients
-   * Priority: 1. Temporary tasks, 2. Fixed routine tasks, 3. Weighted random routine tasks
+   * Priority: 1. Temporary tasks (store > brand > global), 2. Fixed routine tasks, 3. Weighted random routine tasks
+   * Results are cached per restaurant (so store-specific overrides stick) and per brand (shared routine result)
    * @param customTime - Optional custom time (for dev/testing), if null uses current time
    */
   static async getTodayTask(restaurantId: string, slotType: SlotType, customTime: Date | null = null): Promise<Task | null> {
+    const now = customTime || new Date();
+    return this.getTaskForDate(restaurantId, slotType, BusinessDateService.getBusinessDate(now));
+  }
+
+  /**
+   * Get the task for a restaurant, slot and business date (same resolution as getTodayTask)
+   * Used directly by make-up check-ins, which need the task of a past date
+   * @param today - Business date YYYY-MM-DD
+   */
+  static async getTaskForDate(restaurantId: string, slotType: SlotType, today: string): Promise<Task | null> {
     try {
-      const now = customTime || new Date();
-      const today = now.toISOString().split('T')[0]!;
-      const weekday = now.getDay();
+      const weekday = BusinessDateService.getWeekday(today);
 
       // 1. Get restaurant's brand_id (uses in-memory cache)
       const brandId = await this.getBrandId(restaurantId);
 
-      // 2. Check IndexedDB cache
-      const cachedTask = await CacheService.getDailyTask(today, brandId, slotType);
+      // 2. Check IndexedDB cache for this restaurant
+      const cachedTask = await CacheService.getDailyTask(today, brandId, slotType, restaurantId);
       if (cachedTask) {
         return cachedTask;
       }
 
-      // 3. Cache miss - query database
+      const ctx: TaskResolutionContext = { brandId, restaurantId, date: today, weekday, slotType };
 
-      // Check temporary tasks (is_announced=true, execute_date=today)
+      // 3. Temporary tasks (is_announced=true, execute_date=today), ranked by scope
       const { data: adhocTasks } = await supabaseClient
         .from('kbd_task_pool')
         .select('*')
@@ -75,59 +140,52 @@ export class KBDService {
         .eq('execute_date', today)
         .eq('execute_slot', slotType);
 
-      const adhocTask = (adhocTasks || []).find((task: any) =>
-        (task.brand_id === null || task.brand_id === brandId) &&
-        (task.restaurant_id === null || task.restaurant_id === restaurantId)
-      ) as Task | undefined;
+      const temporary = resolveTemporaryTask((adhocTasks || []) as Task[], ctx);
+      if (temporary) {
+        // Store-specific overrides must not leak into the brand-wide cache entry
+        if (temporary.scope !== 'store') {
+          await CacheService.setDailyTask(today, brandId, slotType, temporary.task);
+        }
+        await CacheService.setDailyTask(today, brandId, slotType, temporary.task, restaurantId);
+        return temporary.task;
+      }
 
-      if (adhocTask) {
-        await CacheService.setDailyTask(today, brandId, slotType, adhocTask);
-        return adhocTask;
+      // 4. Brand-level result may already be resolved by another store in the brand
+      const cachedBrandTask = await CacheService.getDailyTask(today, brandId, slotType);
+      if (cachedBrandTask) {
+        await CacheService.setDailyTask(today, brandId, slotType, cachedBrandTask, restaurantId);
+        return cachedBrandTask;
       }
 
-      // Check fixed routine tasks (fixed_weekdays + fixed_slots match)
-      const { data: fixedTasks } = await supabaseClient
+      // 5. Routine tasks (fixed weekday first, then seeded random), brand > global
+      const { data: routineTasks } = await supabaseClient
         .from('kbd_task_pool')
         .select('*')
         .eq('is_routine', true)
         .eq('is_active', true)
-        .contains('fixed_weekdays', [weekday])
-        .contains('fixed_slots', [slotType]);
+        .is('restaurant_id', null);
 
-      const fixedTask = (fixedTasks || []).find((task: any) =>
-        task.brand_id === null || task.brand_id === brandId
-      ) as Task | undefined;
+      const options = { cooldownDays: await this.getTaskCooldownDays(brandId) };
+      const routinePool = (routineTasks || []) as Task[];
 
-      if (fixedTask) {
-        await CacheService.setDailyTask(today, brandId, slotType, fixedTask);
-        return fixedTask;
-      }
-
-      // Seeded random selection from routine tasks
-      const { data: routineTasks } = await supabaseClient
+      // Brand-wide temporary tasks in every slot: they end cooldown replay days and place forecast tasks
+      const { data: overrides } = await supabaseClient
         .from('kbd_task_pool')
         .select('*')
-        .eq('is_routine', true)
+        .eq('is_routine', false)
+        .eq('is_announced', true)
         .eq('is_active', true)
-        .contains('applicable_slots', [slotType]);
-
-      const filteredRoutineTasks = (routineTasks || []).filter((task: any) =>
-        task.brand_id === null || task.brand_id === brandId
-      ) as Task[];
-
-      if (filteredRoutineTasks.length > 0) {
-        // Use seeded random to ensure all clients get the same task
-        const selectedTask = selectDailyTask(
-          filteredRoutineTasks.map(t => ({ ...t, weight: t.weight || 100 })),
-          today,
-          brandId,
-          slotType
-        );
-
-        if (selectedTask) {
-          await CacheService.setDailyTask(today, brandId, slotType, selectedTask as Task);
-          return selectedTask as Task;
-        }
+        .is('restaurant_id', null)
+        .or(`brand_id.is.null,brand_id.eq.${brandId}`)
+        .gte('execute_date', getTemporaryFetchStart(routinePool, today, options))
+        .lte('execute_date', today);
+      const overrideTasks = (overrides || []) as Task[];
+
+      const routine = resolveRoutineTask([...routinePool, ...overrideTasks], ctx, options);
+      if (routine) {
+        await CacheService.setDailyTask(today, brandId, slotType, routine.task);
+        await CacheService.setDailyTask(today, brandId, slotType, routine.task, restaurantId);
+        return routine.task;
       }
 
       return null;
@@ -136,42 +194,523 @@ export class KBDService {
     }
   }
 
+  /**
+   * Get the full checklist for a restaurant, slot and business date
+   * Primary task (getTaskForDate) first, then its required and bonus attached tasks
+   * @param today - Business date YYYY-MM-DD
+   * @returns Empty array when no task resolves for the slot
+   */
+  static async getChecklistForDate(restaurantId: string, slotType: SlotType, today: string): Promise<Task[]> {
+    const primary = await this.getTaskForDate(restaurantId, slotType, today);
+    if (!primary) return [];
+
+    return buildChecklist(primary, await this.getAttachedTasks(primary.id));
+  }
+
+  /**
+   * Get today's checklist for a restaurant and slot (see getChecklistForDate)
+   * @param customTime - Optional custom time (for dev/testing), if null uses current time
+   */
+  static async getTodayChecklist(restaurantId: string, slotType: SlotType, customTime: Date | null = null): Promise<Task[]> {
+    const now = customTime || new Date();
+    return this.getChecklistForDate(restaurantId, slotType, BusinessDateService.getBusinessDate(now));
+  }
+
+  /**
+   * Get active tasks attached to a primary task (required first, then bonus)
+   * A failed lookup degrades to the primary task alone rather than blocking check-in
+   */
+  static async getAttachedTasks(primaryTaskId: string): Promise<Task[]> {
+    const { data: attached, error } = await supabaseClient
+      .from('kbd_task_pool')
+      .select('*')
+      .eq('parent_task_id', primaryTaskId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) return [];
+
+    return (attached || []) as Task[];
+  }
+
+  /**
+   * Get checklist fields for the tasks of some records plus every task attached to them
+   * Used to decide whether a store's records complete the slot (see isSlotComplete)
+   */
+  static async getChecklistTaskRefs(taskIds: string[]): Promise<ChecklistTaskRef[]> {
+    const ids = [...new Set(taskIds)];
+    if (ids.length === 0) return [];
+
+    const idList = ids.join(',');
+    const { data: refs, error } = await supabaseClient
+      .from('kbd_task_pool')
+      .select('id, parent_task_id, is_required, is_active')
+      .or(`id.in.(${idList}),parent_task_id.in.(${idList})`);
+
+    if (error) throw error;
+
+    return (refs || []) as ChecklistTaskRef[];
+  }
+
+  /**
+   * Get the planned task for every slot over a date range (rotation calendar preview)
+   * Computed with the same rules as getTodayTask, without touching the daily task cache
+   * @param startDate - First business date YYYY-MM-DD
+   * @param days - Number of days to include
+   * @param restaurantId - Optional store, to include its own windows and temporary tasks
+   */
+  static async getTaskCalendar(
+    brandId: number,
+    startDate: string,
+    days: number = 7,
+    restaurantId: string | null = null
+  ): Promise<TaskCalendarDay[]> {
+    const dates = Array.from({ length: days }, (_, i) => BusinessDateService.addDays(startDate, i));
+    const endDate = dates[dates.length - 1] ?? startDate;
+
+    const [routineResult, slotConfigs, cooldownDays] = await Promise.all([
+      supabaseClient
+        .from('kbd_task_pool')
+        .select('*')
+        .eq('is_routine', true)
+        .eq('is_active', true)
+        .is('restaurant_id', null),
+      restaurantId ? this.getTimeSlotConfigs(restaurantId) : this.getBrandTimeSlotConfigs(brandId),
+      this.getTaskCooldownDays(brandId)
+    ]);
+
+    if (routineResult.error) throw routineResult.error;
+
+    const routineTasks = (routineResult.data || []) as Task[];
+    const slotTypes = sortSlotConfigs(slotConfigs, BusinessDateService.getDayCutoff()).map(c => c.slot_type);
+
+    // Temporary tasks from before the range too, for the cooldown replay and forecast pairs
+    const fetchFrom = getTemporaryFetchStart(routineTasks, startDate, { cooldownDays });
+
+    // Unannounced temporary tasks are included so the calendar can flag them
+    const temporaryResult = await supabaseClient
+      .from('kbd_task_pool')
+      .select('*')
+      .eq('is_routine', false)
+      .eq('is_active', true)
+      .or(`brand_id.is.null,brand_id.eq.${brandId}`)
+      .gte('execute_date', fetchFrom)
+      .lte('execute_date', endDate);
+
+    if (temporaryResult.error) throw temporaryResult.error;
+
+    const tasks = [
+      ...routineTasks,
+      ...((temporaryResult.data || []) as Task[])
+    ];
+
+    return buildTaskCalendar(tasks, {
+      brandId,
+      restaurantId,
+      dates,
+      slotTypes,
+      cooldownDays
+    });
+  }
+
   /**
    * Preload tasks for all slots to improve perceived performance
    * Tasks will be cached in IndexedDB automatically
+   * @param slotTypes - The brand's configured slot types
    */
-  static async preloadTasksForAllSlots(restaurantId: string): Promise<void> {
-    const slots: SlotType[] = ['lunch_open', 'lunch_close', 'dinner_open', 'dinner_close'];
-
-    await Promise.all(slots.map(slot => this.getTodayTask(restaurantId, slot)));
+  static async preloadTasksForAllSlots(restaurantId: string, slotTypes: SlotType[]): Promise<void> {
+    await Promise.all(slotTypes.map(slot => this.getTodayTask(restaurantId, slot)));
   }
 
   /**
    * Submit check-in record
+   * Queued submissions pass their own id and capture time (check_in_at); a retry whose first
+   * insert already reached the server hits the primary key and counts as submitted
+   * @returns rejected = the server refused the record (retrying the same data cannot succeed)
    */
-  static async submitCheckIn(data: Partial<CheckInRecord>): Promise<{ success: boolean; record?: CheckInRecord; error?: string }> {
+  static async submitCheckIn(data: Partial<CheckInRecord>): Promise<{ success: boolean; record?: CheckInRecord; error?: string; rejected?: boolean }> {
     try {
       const { data: record, error } = await supabaseClient
         .from('kbd_check_in_record')
         .insert([{
+          ...(data.id ? { id: data.id } : {}),
           restaurant_id: data.restaurant_id!,
           employee_id: data.employee_id!,
           task_id: data.task_id!,
+          task_name: data.task_name || null,
+          task_description: data.task_description || null,
+          task_media_type: data.task_media_type || null,
           check_in_date: data.check_in_date!,
           slot_type: data.slot_type!,
-          check_in_at: new Date().toISOString(),
+          check_in_at: data.check_in_at || new Date().toISOString(),
           is_late: data.is_late || false,
+          punctuality: data.punctuality || null,
+          is_makeup: data.is_makeup || false,
+          approval_status: data.approval_status || null,
           text_content: data.text_content || null,
-          media_urls: data.media_urls || []
+          answer: data.answer ?? null,
+          forecast_record_id: data.forecast_record_id ?? null,
+          forecast_score: data.forecast_score ?? null,
+          media_urls: data.media_urls || [],
+          capture_status: data.capture_status || null,
+          media_captured_at: data.media_captured_at || null,
+          capture_source: data.capture_source || null,
+          distance_m: data.distance_m ?? null,
+          location_accuracy_m: data.location_accuracy_m ?? null,
+          is_out_of_range: data.is_out_of_range ?? null
         }] as any)
         .select()
         .single();
 
+      // Any unique key can raise 23505; only a row with this id means the earlier attempt went through
+      if (error && data.id && error.code === '23505' && await this.checkInRecordExists(data.id)) {
+        return { success: true };
+      }
       if (error) throw error;
 
       return { success: true, record: record as unknown as CheckInRecord };
     } catch (error) {
       // Handle Supabase errors (they have message property but aren't Error instances)
+      const errorMessage = error instanceof Error
+        ? error.message
+        : (error as any)?.message || (error as any)?.code || JSON.stringify(error);
+      // Data exceptions (22), integrity violations (23), access rules incl. RLS (42) and PostgREST request errors
+      const rejected = /^(22|23|42|PGRST)/.test((error as any)?.code || '');
+      return { success: false, error: errorMessage, rejected };
+    }
+  }
+
+  /**
+   * Check if a check-in record with this id is already stored
+   */
+  private static async checkInRecordExists(id: string): Promise<boolean> {
+    const { data, error } = await supabaseClient
+      .from('kbd_check_in_record')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    return !error && !!data;
+  }
+
+  /**
+   * Get announced temporary tasks still ahead for a restaurant that the employee has not acknowledged
+   * One task per date + slot (store > brand > global, as getTodayTask would pick); today's slots
+   * are included until their window ends. Ordered by date, then business-day slot order
+   * @param slotConfigs - Active time slot configurations for the restaurant
+   * @param customTime - Optional custom time (for dev/testing), if null uses current time
+   */
+  static async getUpcomingAnnouncements(
+    restaurantId: string,
+    employeeId: string,
+    slotConfigs: TimeSlotConfig[],
+    customTime: Date | null = null
+  ): Promise<Task[]> {
+    const now = customTime || new Date();
+    const today = BusinessDateService.getBusinessDate(now);
+    const currentTime = BusinessDateService.getLocalTime(now);
+    const dayCutoff = BusinessDateService.getDayCutoff();
+    const brandId = await this.getBrandId(restaurantId);
+
+    const { data: tasks, error } = await supabaseClient
+      .from('kbd_task_pool')
+      .select('*')
+      .eq('is_routine', false)
+      .eq('is_announced', true)
+      .eq('is_active', true)
+      .is('parent_task_id', null)
+      .or(`brand_id.is.null,brand_id.eq.${brandId}`)
+      .gte('execute_date', today);
+
+    if (error) throw error;
+
+    const sortedSlots = sortSlotConfigs(slotConfigs, dayCutoff).map(c => c.slot_type);
+
+    // Same override rule as the panel: only the most specific task of each date + slot
+    const groups = new Map<string, Task[]>();
+    ((tasks || []) as Task[]).forEach(task => {
+      const key = `${task.execute_date}_${task.execute_slot}`;
+      groups.set(key, [...(groups.get(key) || []), task]);
+    });
+
+    const upcoming = [...groups.values()]
+      .map(group => pickByScope(group, brandId, restaurantId)?.task)
+      .filter((task): task is Task => Boolean(task))
+      .filter(task => {
+        if (task.execute_date !== today) return true;
+        const config = slotConfigs.find(c => c.slot_type === task.execute_slot);
+        return !config || !hasWindowEnded(config, currentTime, dayCutoff);
+      });
+
+    const acked = await this.getAcknowledgedTaskIds(employeeId, upcoming.map(t => t.id));
+
+    return upcoming
+      .filter(task => !acked.has(task.id))
+      .sort((a, b) =>
+        (a.execute_date || '').localeCompare(b.execute_date || '') ||
+        sortedSlots.indexOf(a.execute_slot || '') - sortedSlots.indexOf(b.execute_slot || '')
+      );
+  }
+
+  /**
+   * Get which of the given tasks an employee has acknowledged
+   */
+  static async getAcknowledgedTaskIds(employeeId: string, taskIds: string[]): Promise<Set<string>> {
+    if (taskIds.length === 0) return new Set();
+
+    const { data: acks, error } = await supabaseClient
+      .from('kbd_task_announcement_ack')
+      .select('task_id')
+      .eq('employee_id', employeeId)
+      .in('task_id', taskIds);
+
+    if (error) throw error;
+
+    return new Set(((acks || []) as Pick<TaskAnnouncementAck, 'task_id'>[]).map(a => a.task_id));
+  }
+
+  /**
+   * Acknowledge an announced temporary task (one row per task + employee)
+   */
+  static async acknowledgeAnnouncement(
+    taskId: string,
+    employeeId: string,
+    restaurantId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await (supabaseClient
+        .from('kbd_task_announcement_ack') as any)
+        .upsert({
+          task_id: taskId,
+          employee_id: employeeId,
+          restaurant_id: restaurantId
+        }, { onConflict: 'task_id,employee_id', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error
+        ? error.message
+        : (error as any)?.message || (error as any)?.code || JSON.stringify(error);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Get how many stores have read each announced task (HQ read tracking)
+   * @returns Map of task_id -> number of distinct restaurants with at least one acknowledgement
+   */
+  static async getAnnouncementReadCounts(taskIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (taskIds.length === 0) return counts;
+
+    const { data: acks, error } = await supabaseClient
+      .from('kbd_task_announcement_ack')
+      .select('task_id, restaurant_id')
+      .in('task_id', taskIds);
+
+    if (error) throw error;
+
+    const stores = new Map<string, Set<string>>();
+    ((acks || []) as Pick<TaskAnnouncementAck, 'task_id' | 'restaurant_id'>[]).forEach(ack => {
+      if (!stores.has(ack.task_id)) stores.set(ack.task_id, new Set());
+      stores.get(ack.task_id)!.add(ack.restaurant_id);
+    });
+    stores.forEach((restaurantIds, taskId) => counts.set(taskId, restaurantIds.size));
+
+    return counts;
+  }
+
+  /**
+   * Get default routine task cooldown (days) for a brand, 0 = tasks may repeat
+   */
+  static async getTaskCooldownDays(brandId: number): Promise<number> {
+    try {
+      const brand = await this.getBrand(brandId);
+      return brand.task_cooldown_days ?? 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  /**
+   * Get active closures overlapping a business date range (all brands and stores)
+   * @param startDate - First business date YYYY-MM-DD
+   * @param endDate - Last business date YYYY-MM-DD (inclusive)
+   */
+  static async getClosures(startDate: string, endDate: string = startDate): Promise<StoreClosure[]> {
+    const { data: closures, error } = await supabaseClient
+      .from('kbd_store_closure')
+      .select('*')
+      .eq('is_active', true)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate);
+
+    if (error) throw error;
+
+    return (closures || []) as StoreClosure[];
+  }
+
+  /**
+   * Get make-up window (days) for a brand
+   */
+  static async getMakeUpWindowDays(brandId: number): Promise<number> {
+    try {
+      const brand = await this.getBrand(brandId);
+      return brand.makeup_window_days ?? DEFAULT_MAKEUP_WINDOW_DAYS;
+    } catch (error) {
+      return DEFAULT_MAKEUP_WINDOW_DAYS;
+    }
+  }
+
+  /**
+   * Get what to do with media captured outside the slot window for a restaurant's brand
+   * Defaults to flagging when the brand does not configure it (or cannot be loaded)
+   */
+  static async getCaptureTimePolicy(restaurantId: string): Promise<CaptureTimePolicy> {
+    try {
+      const brand = await this.getBrand(await this.getBrandId(restaurantId));
+      return brand.capture_time_policy ?? 'flag';
+    } catch (error) {
+      return 'flag';
+    }
+  }
+
+  /**
+   * Get geofence settings for a restaurant's brand
+   * @returns Settings, or null when the brand has not set up a geofence (or cannot be loaded):
+   *          no location is requested then
+   */
+  static async getGeofenceSettings(restaurantId: string): Promise<{ radiusM: number; required: boolean } | null> {
+    try {
+      const brand = await this.getBrand(await this.getBrandId(restaurantId));
+      if (brand.geofence_radius_m == null && brand.geofence_required == null) return null;
+
+      return {
+        radiusM: brand.geofence_radius_m ?? DEFAULT_GEOFENCE_RADIUS_M,
+        required: brand.geofence_required ?? false
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Get the photo watermark style for a restaurant's brand
+   * @returns Style, or null when the brand has watermarks off (or cannot be loaded)
+   */
+  static async getWatermarkStyle(restaurantId: string): Promise<WatermarkStyle | null> {
+    try {
+      const brand = await this.getBrand(await this.getBrandId(restaurantId));
+      return brand.watermark_enabled ? (brand.watermark_style ?? {}) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Get slots a restaurant missed within the make-up window (newest first)
+   * Today's slots only count once their window has closed; rejected make-ups count as missed
+   * A slot is missed until its required checklist tasks are all submitted
+   * Dates + slots the store was closed are not obligations, so they are never listed
+   * @param slotConfigs - Active time slot configurations for the restaurant's brand
+   * @param customTime - Optional custom time (for dev/testing), if null uses current time
+   */
+  static async getMissedSlots(
+    restaurantId: string,
+    slotConfigs: TimeSlotConfig[],
+    customTime: Date | null = null
+  ): Promise<MissedSlot[]> {
+    const now = customTime || new Date();
+    const today = BusinessDateService.getBusinessDate(now);
+    const currentTime = BusinessDateService.getLocalTime(now);
+    const dayCutoff = BusinessDateService.getDayCutoff();
+
+    const brandId = await this.getBrandId(restaurantId);
+    const windowDays = await this.getMakeUpWindowDays(brandId);
+    const earliest = BusinessDateService.addDays(today, -windowDays);
+
+    const { data: records, error } = await supabaseClient
+      .from('kbd_check_in_record')
+      .select('check_in_date, slot_type, task_id, approval_status')
+      .eq('restaurant_id', restaurantId)
+      .gte('check_in_date', earliest)
+      .lte('check_in_date', today);
+
+    if (error) throw error;
+
+    const closures = await this.getClosures(earliest, today);
+    const restaurant = { id: restaurantId, brand_id: brandId };
+
+    const recordList = ((records || []) as any[]).filter(r => r.approval_status !== 'rejected');
+    const refs = await this.getChecklistTaskRefs(recordList.map(r => r.task_id));
+
+    // Records grouped per date + slot
+    const submitted = new Map<string, any[]>();
+    recordList.forEach(r => {
+      const key = `${r.check_in_date}_${r.slot_type}`;
+      submitted.set(key, [...(submitted.get(key) || []), r]);
+    });
+
+    const sortedConfigs = sortSlotConfigs(slotConfigs, dayCutoff);
+
+    const missed: MissedSlot[] = [];
+    for (let offset = 0; offset <= windowDays; offset++) {
+      const date = BusinessDateService.addDays(today, -offset);
+      const daySlots = offset === 0
+        ? sortedConfigs.filter(c => hasWindowEnded(c, currentTime, dayCutoff))
+        : sortedConfigs;
+
+      daySlots.slice().reverse().forEach(config => {
+        const slotRecords = submitted.get(`${date}_${config.slot_type}`) || [];
+        if (!isSlotComplete(slotRecords, refs) && !isClosed(closures, restaurant, date, config.slot_type)) {
+          missed.push({
+            check_in_date: date,
+            slot_type: config.slot_type,
+            submitted_task_ids: slotRecords.map(r => r.task_id)
+          });
+        }
+      });
+    }
+
+    return missed;
+  }
+
+  /**
+   * Approve or reject a pending make-up check-in
+   * The kbd_review_makeup function checks the reviewer's credentials and role, and only changes
+   * a pending make-up of someone else (see TASK_SYSTEM_LOGIC.md, Make-Up Review)
+   * @param reviewer - Logged-in employee reviewing the record
+   */
+  static async reviewMakeUpCheckIn(
+    recordId: string,
+    reviewer: Employee,
+    approved: boolean
+  ): Promise<{ success: boolean; record?: CheckInRecord; error?: string }> {
+    try {
+      // Args are typed as undefined by the placeholder schema types, same workaround as insert above
+      const { data: record, error } = await supabaseClient.rpc('kbd_review_makeup', {
+        p_record_id: recordId,
+        p_reviewer_id: reviewer.id,
+        p_password_hash: reviewer.password_hash,
+        p_approved: approved
+      } as any);
+
+      if (error) throw error;
+
+      // Keep cached history (first page) in sync so the panel shows the new status
+      const reviewed = record as unknown as CheckInRecord;
+      const cachedRecords = await CacheService.getCheckInRecords(reviewed.restaurant_id);
+      if (cachedRecords.some(r => r.id === reviewed.id)) {
+        await CacheService.setCheckInRecords(
+          reviewed.restaurant_id,
+          cachedRecords.map(r => r.id === reviewed.id ? { ...r, ...reviewed } : r)
+        );
+      }
+
+      return { success: true, record: reviewed };
+    } catch (error) {
       const errorMessage = error instanceof Error
         ? error.message
         : (error as any)?.message || (error as any)?.code || JSON.stringify(error);
@@ -182,15 +721,22 @@ export class KBDService {
   /**
    * Get all restaurants with check-in status for today
    * Uses cache-first strategy for base restaurant data, fresh query for check-in status
-   * @param slotType - Slot type to check status for
+   * @param slotType - Slot type to check status for (null when the brand has no slots configured)
    * @param displayMode - If true, show all restaurants as checked (for display outside time window)
    * @param customTime - Optional custom time (for dev/testing), if null uses current time
+   * @param date - Business date of the slot, if null uses today's
    */
-  static async getRestaurantsWithStatus(slotType: SlotType, displayMode: boolean = false, customTime: Date | null = null): Promise<Restaurant[]> {
+  static async getRestaurantsWithStatus(
+    slotType: SlotType | null,
+    displayMode: boolean = false,
+    customTime: Date | null = null,
+    date: string | null = null
+  ): Promise<Restaurant[]> {
     const funcStart = performance.now();
     try {
       const now = customTime || new Date();
-      const today = now.toISOString().split('T')[0]!;
+      // Display mode may show yesterday's last slot
+      const today = date || BusinessDateService.getBusinessDate(now);
 
       // 1. Try to get restaurants from cache first (valid for 1 hour)
       let restaurantList: any[] = [];
@@ -242,27 +788,57 @@ export class KBDService {
 
       // 2. Always query fresh check-in records for today's slot
       const checkInQueryStart = performance.now();
-      const { data: checkIns, error: checkInError } = await supabaseClient
-        .from('kbd_check_in_record')
-        .select('restaurant_id, media_urls, check_in_date, slot_type, text_content')
-        .eq('check_in_date', today)
-        .eq('slot_type', slotType!);
+      let checkIns: any[] = [];
+      if (slotType) {
+        const { data, error: checkInError } = await supabaseClient
+          .from('kbd_check_in_record')
+          .select('id, restaurant_id, task_id, media_urls, check_in_date, slot_type, text_content, is_late, punctuality, is_makeup, approval_status')
+          .eq('check_in_date', today)
+          .eq('slot_type', slotType);
+
+        if (checkInError) {
+          // If no check-ins found, that's okay
+        }
+        checkIns = (data || []) as any[];
+      }
+
+      // Rejected make-ups leave the slot open
+      const checkInList = checkIns.filter(c => c.approval_status !== 'rejected');
 
-      if (checkInError) {
-        // If no check-ins found, that's okay
+      // Closed stores have no obligation today (shown as closed, not as a miss)
+      let closures: StoreClosure[] = [];
+      try {
+        closures = await this.getClosures(today);
+      } catch (error) {
+        // Closure lookup failure should not block the map
       }
 
-      const checkInList = (checkIns || []) as any[];
+      // A store is checked once its required checklist tasks are all submitted
+      let refs: ChecklistTaskRef[] = [];
+      try {
+        refs = await this.getChecklistTaskRefs(checkInList.map(c => c.task_id));
+      } catch (error) {
+        // Without task info every record counts as a primary check-in (pre-checklist behaviour)
+      }
+      const attachedTaskIds = new Set(refs.filter(ref => ref.parent_task_id).map(ref => ref.id));
 
       // 3. Combine cached restaurants with fresh check-in status
-      const checkInMap = new Map(checkInList.map((c: any) => [c.restaurant_id, c]));
+      const checkInMap = new Map<string, any[]>();
+      checkInList.forEach((c: any) => {
+        checkInMap.set(c.restaurant_id, [...(checkInMap.get(c.restaurant_id) || []), c]);
+      });
 
-      const result = restaurantList.map((r: any) => ({
-        ...r,
-        checked: displayMode ? false : checkInMap.has(r.id), // In display mode, show all as NOT checked (white)
-        checkInData: checkInMap.get(r.id),
-        displayMode: displayMode // Flag to indicate display mode
-      })) as Restaurant[];
+      const result = restaurantList.map((r: any) => {
+        const records = checkInMap.get(r.id) || [];
+        return {
+          ...r,
+          checked: displayMode ? false : isSlotComplete(records, refs), // In display mode, show all as NOT checked (white)
+          checkInData: records.find(c => !attachedTaskIds.has(c.task_id)),
+          checkIns: records,
+          closure: findClosure(closures, r, today, slotType),
+          displayMode: displayMode // Flag to indicate display mode
+        };
+      }) as Restaurant[];
 
       return result;
     } catch (error) {
@@ -271,44 +847,57 @@ export class KBDService {
   }
 
   /**
-   * Get current time slot based on time window configuration
-   * @param brandId - Brand ID to check time slots for
+   * Get brand default time slot configurations (no store overrides)
+   */
+  static async getBrandTimeSlotConfigs(brandId: number): Promise<TimeSlotConfig[]> {
+    const { data: configs, error } = await supabaseClient
+      .from('kbd_time_slot_config')
+      .select('*')
+      .eq('brand_id', brandId)
+      .is('restaurant_id', null);
+
+    if (error) throw error;
+
+    return resolveSlotConfigs((configs || []) as TimeSlotConfig[], null);
+  }
+
+  /**
+   * Get time slot configurations for a restaurant
+   * Brand rows are the defaults; the restaurant's own rows override them per slot type
+   */
+  static async getTimeSlotConfigs(restaurantId: string): Promise<TimeSlotConfig[]> {
+    const brandId = await this.getBrandId(restaurantId);
+
+    // Inactive rows are fetched too, so a store row can switch off a brand slot
+    const { data: configs, error } = await supabaseClient
+      .from('kbd_time_slot_config')
+      .select('*')
+      .eq('brand_id', brandId)
+      .or(`restaurant_id.is.null,restaurant_id.eq.${restaurantId}`);
+
+    if (error) throw error;
+
+    return resolveSlotConfigs((configs || []) as TimeSlotConfig[], restaurantId);
+  }
+
+  /**
+   * Get current time slot based on the restaurant's time window configuration
+   * @param restaurantId - Restaurant whose windows apply (falls back to brand defaults)
    * @param customTime - Optional custom time (for dev/testing), if null uses current time
    */
-  static async getCurrentTimeSlot(brandId: number, customTime: Date | null = null): Promise<SlotType | null> {
+  static async getCurrentTimeSlot(restaurantId: string, customTime: Date | null = null): Promise<SlotType | null> {
     try {
       const now = customTime || new Date();
-      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:00`;
-
-      // Get time slot configurations for this brand
-      const { data: configs, error } = await supabaseClient
-        .from('kbd_time_slot_config')
-        .select('*')
-        .eq('brand_id', brandId)
-        .is('restaurant_id', null)
-        .eq('is_active', true);
+      const currentTime = `${BusinessDateService.getLocalTime(now).slice(0, 5)}:00`;
 
-      if (error) throw error;
-      if (!configs || configs.length === 0) return null;
-
-      const configList = configs as any[];
+      const configList = await this.getTimeSlotConfigs(restaurantId);
+      if (configList.length === 0) return null;
 
       // Check each config to see if current time is within window
       for (const config of configList) {
-        const start = config.window_start;
-        const end = config.window_end;
-
-        // Handle midnight crossing (e.g., 21:30:00 - 01:00:00)
-        if (end < start) {
-          // Window crosses midnight
-          if (currentTime >= start || currentTime <= end) {
-            return config.slot_type as SlotType;
-          }
-        } else {
-          // Normal window
-          if (currentTime >= start && currentTime <= end) {
-            return config.slot_type as SlotType;
-          }
+        // Handles midnight crossing (e.g., 21:30:00 - 01:00:00)
+        if (isTimeInWindow(currentTime, config.window_start, config.window_end)) {
+          return config.slot_type;
         }
       }
 
@@ -320,46 +909,47 @@ export class KBDService {
 
   /**
    * Get previous time slot (for display when outside check-in window)
+   * The most recent slot whose window has closed, from the brand's own slot configuration
+   * @param slotConfigs - Active time slot configurations for the brand
+   * @param customTime - Optional custom time (for dev/testing), if null uses current time
+   * @returns Slot type and its business date (yesterday's before today's first slot closes),
+   *          or null when no slots are configured
    */
-  static getPreviousTimeSlot(currentTime: string | null = null): SlotType {
-    if (!currentTime) {
-      const now = new Date();
-      currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:00`;
-    }
-
-    // Approximate time boundaries (actual boundaries from config, but this is for fallback)
-    const slotBoundaries = {
-      'lunch_open': '11:30:00',
-      'lunch_close': '15:30:00',
-      'dinner_open': '17:30:00',
-      'dinner_close': '01:00:00'
+  static getPreviousTimeSlot(
+    slotConfigs: TimeSlotConfig[],
+    customTime: Date | null = null
+  ): { slotType: SlotType; date: string } | null {
+    const now = customTime || new Date();
+    const dayCutoff = BusinessDateService.getDayCutoff();
+
+    const previous = getPreviousSlot(
+      sortSlotConfigs(slotConfigs, dayCutoff),
+      BusinessDateService.getLocalTime(now),
+      dayCutoff
+    );
+    if (!previous) return null;
+
+    const today = BusinessDateService.getBusinessDate(now);
+    return {
+      slotType: previous.slotType,
+      date: previous.previousDay ? BusinessDateService.addDays(today, -1) : today
     };
-
-    // If before lunch_open, show dinner_close from yesterday
-    if (currentTime < slotBoundaries.lunch_open) {
-      return 'dinner_close';
-    }
-    // If between lunch_open and lunch_close, show lunch_open
-    if (currentTime < slotBoundaries.lunch_close) {
-      return 'lunch_open';
-    }
-    // If between lunch_close and dinner_open, show lunch_close
-    if (currentTime < slotBoundaries.dinner_open) {
-      return 'lunch_close';
-    }
-    // If between dinner_open and dinner_close, show dinner_open
-    if (currentTime < slotBoundaries.dinner_close) {
-      return 'dinner_open';
-    }
-    // After dinner_close (late night), show dinner_close
-    return 'dinner_close';
   }
 
   /**
-   * Upload media to Supabase Storage with timeout and retry logic
-   * Timeout: 3 minutes for large files
+   * Upload media to Supabase Storage as a resumable (TUS) upload
+   * Sent in 6MB chunks; a retry, page reload or network switch resumes from the last confirmed chunk
+   * @param options - Capture time, stable file key, progress callback and cancel signal
    */
-  static async uploadMedia(file: File, restaurantId: string, slotType: SlotType, employeeId: string): Promise<string> {
+  static async uploadMedia(
+    file: File,
+    restaurantId: string,
+    slotType: SlotType,
+    employeeId: string,
+    options: UploadMediaOptions = {}
+  ): Promise<string> {
+    const { capturedAt = new Date(), fileKey = String(Date.now()) } = options;
+
     console.log('[KBDService.uploadMedia] Starting upload:', {
       fileName: file.name,
       fileType: file.type,
@@ -370,11 +960,8 @@ export class KBDService {
     });
 
     try {
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const date = String(now.getDate()).padStart(2, '0');
-      const timestamp = now.getTime();
+      // Folder by business date of capture, so late-night and queued uploads sit next to the rest of the day
+      const [year, month, date] = BusinessDateService.getBusinessDate(capturedAt).split('-');
 
       const ext = file.name.split('.').pop();
       const mediaType = file.type.startsWith('image/') ? 'image' :
@@ -385,34 +972,14 @@ export class KBDService {
       const brandId = await this.getBrandId(restaurantId);
       console.log('[KBDService.uploadMedia] brand_id:', brandId);
 
-      const path = `${brandId}/${restaurantId}/${year}/${month}/${date}/${slotType}/${mediaType}/${employeeId}_${timestamp}.${ext}`;
+      const path = `${brandId}/${restaurantId}/${year}/${month}/${date}/${slotType}/${mediaType}/${employeeId}_${fileKey}.${ext}`;
       console.log('[KBDService.uploadMedia] Upload path:', path);
 
-      console.log('[KBDService.uploadMedia] Starting Supabase storage upload...');
+      console.log('[KBDService.uploadMedia] Starting resumable upload...');
       const uploadStart = performance.now();
-
-      // Create upload promise with timeout (3 minutes for large files)
-      const uploadPromise = supabaseClient.storage
-        .from('KBD')
-        .upload(path, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error('Upload timeout after 3 minutes'));
-        }, 180000); // 3 minutes
-      });
-
-      const { error } = await Promise.race([uploadPromise, timeoutPromise]);
+      await this.uploadResumable(path, file, options);
       const uploadTime = performance.now() - uploadStart;
-      console.log('[KBDService.uploadMedia] Supabase upload completed in', uploadTime.toFixed(0), 'ms');
-
-      if (error) {
-        console.error('[KBDService.uploadMedia] Upload error:', error);
-        throw new Error(`上传失败: ${error.message || '未知错误'}`);
-      }
+      console.log('[KBDService.uploadMedia] Resumable upload completed in', uploadTime.toFixed(0), 'ms');
 
       // Get public URL
       console.log('[KBDService.uploadMedia] Getting public URL...');
@@ -427,15 +994,196 @@ export class KBDService {
 
       // Provide user-friendly error messages
       if (error instanceof Error) {
-        if (error.message.includes('timeout')) {
-          throw new Error('上传超时，请检查网络连接或选择较小的文件');
-        }
-        throw error;
+        throw new Error(`上传失败: ${error.message || '未知错误'}`);
       }
       throw new Error('上传失败，请重试');
     }
   }
 
+  /**
+   * Run one TUS upload against Supabase Storage's resumable endpoint
+   * The fingerprint is the object path, so an unfinished upload of the same path (kept in
+   * localStorage across reloads) continues at the offset the server confirmed
+   */
+  private static uploadResumable(path: string, file: File, options: UploadMediaOptions): Promise<void> {
+    const { onProgress, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Upload cancelled'));
+        return;
+      }
+
+      const upload = new tus.Upload(file, {
+        endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+        retryDelays: UPLOAD_RETRY_DELAYS_MS,
+        headers: {
+          authorization: `Bearer ${supabaseAnonKey}`,
+          apikey: supabaseAnonKey
+        },
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        metadata: {
+          bucketName: 'KBD',
+          objectName: path,
+          contentType: file.type,
+          cacheControl: '3600'
+        },
+        // Supabase requires exactly 6MB chunks
+        chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+        fingerprint: async () => `kbd-upload::${path}`,
+        onProgress: onProgress ?? null,
+        onChunkComplete: (_chunkSize, bytesAccepted, bytesTotal) => {
+          console.log('[KBDService.uploadResumable] Confirmed', bytesAccepted, '/', bytesTotal, 'bytes');
+        },
+        onError: (error) => {
+          // The path is unique to this queued file: a 409 on creation means the object is our own earlier
+          // upload that finished after its fingerprint was cleared. A 409 on PATCH is an offset mismatch
+          // of an unfinished upload and must fail
+          if (
+            error instanceof tus.DetailedError &&
+            error.originalResponse?.getStatus() === 409 &&
+            error.originalRequest?.getMethod() === 'POST'
+          ) {
+            resolve();
+            return;
+          }
+          reject(error);
+        },
+        onSuccess: () => resolve()
+      });
+
+      // Cancelled uploads are terminated on the server too, so they cannot be resumed later
+      signal?.addEventListener('abort', () => {
+        upload.abort(true).catch(() => {});
+        reject(new Error('Upload cancelled'));
+      }, { once: true });
+
+      upload.findPreviousUploads().then(previousUploads => {
+        const previous = previousUploads[0];
+        if (previous) {
+          console.log('[KBDService.uploadResumable] Resuming previous upload:', path);
+          upload.resumeFromPreviousUpload(previous);
+        }
+        upload.start();
+      }).catch(reject);
+    });
+  }
+
+  /**
+   * Attach the task each record was submitted for, as the manager saw it
+   * Snapshot columns win; only records from before snapshots look up the current kbd_task_pool row
+   */
+  private static async attachTasks(records: CheckInRecord[]): Promise<Array<CheckInRecord & { task?: Task }>> {
+    const legacyTaskIds = [...new Set(records.filter(r => !r.task_name).map(r => r.task_id))];
+
+    let taskMap = new Map<string, Task>();
+    if (legacyTaskIds.length > 0) {
+      const { data: tasks } = await supabaseClient
+        .from('kbd_task_pool')
+        .select('id, task_name, task_description, media_type')
+        .in('id', legacyTaskIds);
+
+      taskMap = new Map((tasks || []).map((t: any) => [t.id, t as Task]));
+    }
+
+    return records.map(record => ({
+      ...record,
+      task: record.task_name
+        ? {
+          id: record.task_id,
+          task_name: record.task_name,
+          task_description: record.task_description || '',
+          media_type: record.task_media_type
+        } as Task
+        : taskMap.get(record.task_id)
+    }));
+  }
+
+  /**
+   * Get the forecast a store made for a date (latest record of the forecast task, rejected make-ups excluded)
+   * @returns Record with its answer, or null when no forecast was submitted
+   */
+  static async getForecastRecord(restaurantId: string, forecastTaskId: string, date: string): Promise<CheckInRecord | null> {
+    const { data, error } = await supabaseClient
+      .from('kbd_check_in_record')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .eq('task_id', forecastTaskId)
+      .eq('check_in_date', date)
+      .order('check_in_at', { ascending: false });
+
+    if (error) throw error;
+    const records = (data || []) as CheckInRecord[];
+    return records.find(r => r.approval_status !== 'rejected' && r.answer) ?? null;
+  }
+
+  /**
+   * Forecast fields of an actual-figure record: the store's forecast for the date and how close it was
+   * Throws when the forecast cannot be looked up (the caller retries later)
+   * @param actual - Answer of the actual-figure task
+   */
+  static async getForecastFields(
+    restaurantId: string,
+    forecastTaskId: string,
+    date: string,
+    actual: TaskAnswer | null
+  ): Promise<Pick<CheckInRecord, 'forecast_record_id' | 'forecast_score'>> {
+    if (!actual) {
+      return { forecast_record_id: null, forecast_score: null };
+    }
+
+    const forecast = await this.getForecastRecord(restaurantId, forecastTaskId, date);
+    const score = forecast?.answer ? scoreForecast(forecast.answer, actual) : null;
+    return {
+      forecast_record_id: score !== null ? forecast!.id : null,
+      forecast_score: score
+    };
+  }
+
+  /**
+   * Running forecast accuracy of a store and of each manager who made its forecasts
+   * @param days - Business days to look back
+   */
+  static async getForecastAccuracy(restaurantId: string, days: number = FORECAST_ACCURACY_DAYS): Promise<ForecastAccuracySummary> {
+    const since = BusinessDateService.addDays(BusinessDateService.getBusinessDate(), -days);
+
+    const { data: actuals, error } = await supabaseClient
+      .from('kbd_check_in_record')
+      .select('forecast_record_id, forecast_score, approval_status')
+      .eq('restaurant_id', restaurantId)
+      .not('forecast_score', 'is', null)
+      .gte('check_in_date', since);
+
+    if (error) throw error;
+    const scored = ((actuals || []) as any[]).filter(r => r.approval_status !== 'rejected');
+    if (scored.length === 0) return { store: null, managers: [] };
+
+    // Accuracy belongs to whoever made the forecast, not who entered the actual figure
+    const forecastIds = [...new Set(scored.map(r => r.forecast_record_id as string))];
+    const { data: forecasts, error: forecastError } = await supabaseClient
+      .from('kbd_check_in_record')
+      .select('id, employee_id')
+      .in('id', forecastIds);
+
+    if (forecastError) throw forecastError;
+    const forecasterById = new Map(((forecasts || []) as any[]).map(f => [f.id as string, f.employee_id as string]));
+
+    const scoresByEmployee = new Map<string, number[]>();
+    scored.forEach(r => {
+      const employeeId = forecasterById.get(r.forecast_record_id);
+      if (!employeeId) return;
+      scoresByEmployee.set(employeeId, [...(scoresByEmployee.get(employeeId) || []), r.forecast_score]);
+    });
+
+    return {
+      store: averageAccuracy(scored.map(r => r.forecast_score as number)),
+      managers: [...scoresByEmployee.entries()]
+        .map(([employeeId, scores]) => ({ employeeId, ...averageAccuracy(scores)! }))
+        .sort((a, b) => b.score - a.score)
+    };
+  }
+
   /**
    * Get check-in history for a restaurant with pagination
    * Uses cache-first strategy for first page (10 records)
@@ -475,18 +1223,7 @@ export class KBDService {
 
           // Legacy cache without task info - need to lookup tasks
           const taskQueryStart = performance.now();
-          const taskIds = [...new Set(cachedRecords.map(r => r.task_id))];
-          const { data: tasks } = await supabaseClient
-            .from('kbd_task_pool')
-            .select('id, task_name, task_description, media_type')
-            .in('id', taskIds);
-
-          const taskMap = new Map((tasks || []).map((t: any) => [t.id, t as Task]));
-
-          const enrichedRecords = cachedRecords.slice(0, limit).map(record => ({
-            ...record,
-            task: taskMap.get(record.task_id)
-          }));
+          const enrichedRecords = await this.attachTasks(cachedRecords.slice(0, limit));
 
           // Update cache with enriched records (so next load is instant)
           await CacheService.setCheckInRecords(restaurantId, enrichedRecords as any);
@@ -520,19 +1257,7 @@ export class KBDService {
 
       // Get task details for each record FIRST (before caching)
       const taskQueryStart = performance.now();
-      const taskIds = [...new Set(actualRecords.map(r => r.task_id))];
-      const { data: tasks } = await supabaseClient
-        .from('kbd_task_pool')
-        .select('id, task_name, task_description, media_type')
-        .in('id', taskIds);
-
-      const taskMap = new Map((tasks || []).map((t: any) => [t.id, t as Task]));
-
-      // Combine records with task info
-      const enrichedRecords = actualRecords.map(record => ({
-        ...record,
-        task: taskMap.get(record.task_id)
-      }));
+      const enrichedRecords = await this.attachTasks(actualRecords);
 
       // Cache first page results WITH task info embedded
       if (offset === 0 && enrichedRecords.length > 0) {
@@ -1,9 +1,9 @@
-// Version: 1.2 - Added environment guards for console.logs (production cleanup)
-// Monitors kbd_check_in_record table INSERT events and notifies subscribers
+// Version: 1.3 - Also monitors kbd_task_pool changes (cached daily task invalidation)
+// Monitors kbd_check_in_record table INSERT events and kbd_task_pool changes, and notifies subscribers
 
 import { supabaseClient } from './supabase';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-import type { CheckInRecord } from '@/types/models';
+import type { CheckInRecord, Task } from '@/types/models';
 
 // Debug logging only in development mode
 const debugLog = (...args: unknown[]) => {
@@ -17,16 +17,29 @@ const debugLog = (...args: unknown[]) => {
  */
 type CheckInCallback = (record: CheckInRecord) => void;
 
+/**
+ * Task pool change: row after the change (INSERT/UPDATE) and before it (UPDATE/DELETE)
+ * Old rows only carry the primary key unless the table uses REPLICA IDENTITY FULL
+ */
+export interface TaskPoolChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  task: Partial<Task> | null;
+  previous: Partial<Task> | null;
+}
+
+type TaskPoolCallback = (change: TaskPoolChange) => void;
+
 /**
  * RealtimeService - Supabase Realtime subscription manager
  */
 export class RealtimeService {
   private static channel: RealtimeChannel | null = null;
   private static callbacks: Set<CheckInCallback> = new Set();
+  private static taskPoolCallbacks: Set<TaskPoolCallback> = new Set();
   private static _isConnected: boolean = false;
 
   /**
-   * Initialize and start subscribing to kbd_check_in_record INSERT events
+   * Initialize and start subscribing to kbd_check_in_record INSERT events and kbd_task_pool changes
    */
   static async init(): Promise<void> {
     if (this.channel) {
@@ -125,6 +138,33 @@ export class RealtimeService {
         // eslint-disable-next-line no-console
         debugLog('─'.repeat(60));
       })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'kbd_task_pool'
+      }, (payload) => {
+        const hasRow = (row: unknown) => Boolean(row && Object.keys(row).length > 0);
+        const change: TaskPoolChange = {
+          eventType: payload.eventType as TaskPoolChange['eventType'],
+          task: hasRow(payload.new) ? payload.new as Partial<Task> : null,
+          previous: hasRow(payload.old) ? payload.old as Partial<Task> : null
+        };
+
+        // eslint-disable-next-line no-console
+        debugLog('[RealtimeService] 📥 TASK POOL', {
+          eventType: change.eventType,
+          id: change.task?.id ?? change.previous?.id
+        });
+
+        this.taskPoolCallbacks.forEach((cb) => {
+          try {
+            cb(change);
+          } catch (err) {
+            // eslint-disable-next-line no-console
+            console.error('[RealtimeService] Task pool callback error:', err);
+          }
+        });
+      })
       .subscribe((status) => {
         // eslint-disable-next-line no-console
         debugLog('[RealtimeService] Subscription status:', status);
@@ -162,6 +202,17 @@ export class RealtimeService {
     };
   }
 
+  /**
+   * Register a callback for kbd_task_pool changes (INSERT, UPDATE, DELETE)
+   */
+  static onTaskPoolChange(callback: TaskPoolCallback): () => void {
+    this.taskPoolCallbacks.add(callback);
+
+    return () => {
+      this.taskPoolCallbacks.delete(callback);
+    };
+  }
+
   /**
    * Stop subscription and clean up all resources
    */
@@ -173,6 +224,7 @@ export class RealtimeService {
       this.channel = null;
       this._isConnected = false;
       this.callbacks.clear();
+      this.taskPoolCallbacks.clear();
       // eslint-disable-next-line no-console
       debugLog('[RealtimeService] Subscription stopped and cleaned up');
     }
@@ -0,0 +1,402 @@
+// Version: 1.5 - Forecast pair resolved right before the record insert
+// Every check-in is queued in IndexedDB first, then its media and record are uploaded;
+// failed submissions stay queued and are retried when the network comes back
+
+import { CacheService } from './cache.service';
+import { KBDService } from './kbd.service';
+import type { CheckInRecord, PendingCheckIn, UploadFileProgress } from '@/types/models';
+
+// Retry delay while the browser reports online but uploads fail
+const RETRY_DELAY_MS = 30 * 1000;
+// Automatic retries per submission before it waits for a manual retry
+const MAX_AUTO_ATTEMPTS = 5;
+// Requests that never got a response: fetch in Chrome / Firefox / Safari, TUS without a response code
+const NETWORK_ERROR_PATTERN = /Failed to fetch|NetworkError|Load failed|response code: n\/a/i;
+
+// sent = record inserted, failed = try again later, rejected = server refused the record,
+// offline = network gone (later submissions would fail too), cancelled = dropped by the user
+export type SubmitOutcome = 'sent' | 'failed' | 'rejected' | 'offline' | 'cancelled';
+
+type QueueChangeCallback = (pending: PendingCheckIn[]) => void;
+type ProgressCallback = (id: string, files: UploadFileProgress[]) => void;
+
+export class SubmissionQueueService {
+  private static pending: PendingCheckIn[] = [];
+  private static processing: Promise<void> | null = null;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static callbacks: Set<QueueChangeCallback> = new Set();
+  // Notified with each submission that reached the server
+  private static submittedCallbacks: Set<(pending: PendingCheckIn) => void> = new Set();
+  private static progressCallbacks: Set<ProgressCallback> = new Set();
+  // Per-file upload state of each submission (in memory, rebuilt from uploaded_urls after a reload)
+  private static progress: Map<string, UploadFileProgress[]> = new Map();
+  // Aborts the uploads of the submission being sent
+  private static controllers: Map<string, AbortController> = new Map();
+  // Submissions whose record insert is in flight (too late to cancel)
+  private static inserting: Set<string> = new Set();
+  // Callers waiting for the outcome of one submission (see send)
+  private static waiters: Map<string, (outcome: SubmitOutcome) => void> = new Map();
+
+  /**
+   * Load queued submissions left from earlier sessions and retry them when the network returns
+   */
+  static async init(): Promise<void> {
+    this.pending = await CacheService.getPendingCheckIns();
+    this.notify();
+
+    window.addEventListener('online', () => {
+      this.process(true);
+    });
+
+    if (this.pending.length > 0) {
+      this.process();
+    }
+  }
+
+  /**
+   * Queue a check-in (record fields are fixed now, including capture time and punctuality)
+   * @param forecastTaskId - Actual-figure check-ins: forecast task to score against, looked up at insert
+   *                         (the forecast may itself still be queued, or the device offline now)
+   * @returns Queue id, also used as the record id
+   */
+  static async enqueue(record: Partial<CheckInRecord>, files: File[], forecastTaskId: string | null = null): Promise<string> {
+    const pending: PendingCheckIn = {
+      id: crypto.randomUUID(),
+      record,
+      files,
+      uploaded_urls: [],
+      attempts: 0,
+      last_error: null,
+      forecast_task_id: forecastTaskId,
+      queued_at: Date.now()
+    };
+
+    await CacheService.setPendingCheckIn(pending);
+    this.pending = [...this.pending, pending];
+    this.notify();
+
+    return pending.id;
+  }
+
+  /**
+   * Upload queued submissions in order
+   * A failed submission does not hold back newer ones; only a lost network ends the run.
+   * Submissions the server refused are left for attention and skipped
+   * @param manual - Also retry submissions that used up their automatic attempts
+   */
+  static async process(manual: boolean = false): Promise<void> {
+    await this.runExclusive(async () => {
+      // Submissions queued while a run is in progress are picked up by the same run
+      const tried = new Set<string>();
+      let next: PendingCheckIn | undefined;
+      while ((next = this.pending.find(p => !tried.has(p.id) && this.isRetryable(p, manual)))) {
+        tried.add(next.id);
+        const outcome = await this.submit(next);
+        if (outcome === 'offline') break;
+      }
+    });
+  }
+
+  /**
+   * Run the queue for a new submission and resolve as soon as that submission is sent, fails or is cancelled
+   * The run carries on with the rest of the queue afterwards
+   */
+  static send(id: string): Promise<SubmitOutcome> {
+    const outcome = new Promise<SubmitOutcome>(resolve => this.waiters.set(id, resolve));
+    // Still waiting once the run is over = never tried (the network dropped on an older submission)
+    this.process().then(() => this.settle(id, navigator.onLine ? 'failed' : 'offline'));
+    return outcome;
+  }
+
+  /**
+   * Retry one failed file of a submission; the record is inserted once every file is uploaded
+   * Files that already went through are not sent again
+   */
+  static async retryFile(id: string, index: number): Promise<void> {
+    await this.runExclusive(async () => {
+      const pending = this.pending.find(p => p.id === id);
+      if (pending) {
+        await this.submit(pending, index);
+      }
+    });
+  }
+
+  /**
+   * Cancel a submission: abort its uploads and drop it from the queue
+   * @returns false once its record is being inserted (it may already be on the server)
+   */
+  static async cancel(id: string): Promise<boolean> {
+    if (this.inserting.has(id)) return false;
+
+    this.controllers.get(id)?.abort();
+
+    this.pending = this.pending.filter(p => p.id !== id);
+    this.progress.delete(id);
+    await CacheService.removePendingCheckIn(id);
+    this.settle(id, 'cancelled');
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Check if a submission's record insert is in flight
+   */
+  static isInserting(id: string): boolean {
+    return this.inserting.has(id);
+  }
+
+  /**
+   * Run queue work one at a time, then schedule the next automatic retry
+   */
+  private static async runExclusive(work: () => Promise<void>): Promise<void> {
+    // Wait for the current run (it may already be sending what the caller is after)
+    while (this.processing) {
+      await this.processing;
+    }
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.processing = work();
+    try {
+      await this.processing;
+    } finally {
+      this.processing = null;
+    }
+
+    // Keep retrying while something is left that may still go through on its own
+    if (this.pending.some(p => this.isRetryable(p, false)) && navigator.onLine) {
+      this.retryTimer = setTimeout(() => this.process(), RETRY_DELAY_MS);
+    }
+  }
+
+  /**
+   * Check if a run should try a submission (refused ones wait for the user)
+   */
+  private static isRetryable(pending: PendingCheckIn, manual: boolean): boolean {
+    return !pending.needs_attention && (manual || pending.attempts < MAX_AUTO_ATTEMPTS);
+  }
+
+  /**
+   * Send a submission and pass the outcome to whoever waits for it
+   */
+  private static async submit(pending: PendingCheckIn, onlyIndex: number | null = null): Promise<SubmitOutcome> {
+    const outcome = await this.trySubmit(pending, onlyIndex);
+    this.settle(pending.id, outcome);
+    return outcome;
+  }
+
+  private static settle(id: string, outcome: SubmitOutcome): void {
+    const resolve = this.waiters.get(id);
+    if (!resolve) return;
+
+    this.waiters.delete(id);
+    resolve(outcome);
+  }
+
+  /**
+   * Upload a submission's remaining files, then insert its record
+   * Every missing file is tried, so one failure does not hold back the others; each URL is
+   * saved as soon as its file is uploaded so a retry does not upload it twice
+   * @param onlyIndex - Only upload this file (single-file retry)
+   */
+  private static async trySubmit(pending: PendingCheckIn, onlyIndex: number | null): Promise<SubmitOutcome> {
+    const { record } = pending;
+    const controller = new AbortController();
+    this.controllers.set(pending.id, controller);
+
+    try {
+      const capturedAt = record.check_in_at ? new Date(record.check_in_at) : new Date(pending.queued_at);
+      let failed: string | null = null;
+
+      for (let i = 0; i < pending.files.length; i++) {
+        if (pending.uploaded_urls[i] || (onlyIndex !== null && i !== onlyIndex)) continue;
+
+        const file = pending.files[i]!;
+        this.updateFile(pending, i, { status: 'uploading', bytesSent: 0, error: null });
+        try {
+          const url = await KBDService.uploadMedia(
+            file,
+            record.restaurant_id!,
+            record.slot_type!,
+            record.employee_id!,
+            {
+              capturedAt,
+              // Same key on every retry, so a half-sent file resumes instead of starting over
+              fileKey: `${pending.id}-${i}`,
+              onProgress: (bytesSent) => this.updateFile(pending, i, { bytesSent }),
+              signal: controller.signal
+            }
+          );
+          if (controller.signal.aborted) return 'cancelled';
+
+          const uploadedUrls = [...pending.uploaded_urls];
+          uploadedUrls[i] = url;
+          pending.uploaded_urls = uploadedUrls;
+          await CacheService.setPendingCheckIn(pending);
+          this.updateFile(pending, i, { status: 'done', bytesSent: file.size });
+        } catch (error) {
+          if (controller.signal.aborted) return 'cancelled';
+
+          failed = error instanceof Error ? error.message : String(error);
+          this.updateFile(pending, i, { status: 'failed', error: failed });
+        }
+      }
+
+      if (failed) throw new Error(failed);
+      // Single-file retry with other files still missing: nothing to insert yet
+      if (pending.files.some((_, i) => !pending.uploaded_urls[i])) return 'failed';
+
+      // Scored now rather than at submit, so check-ins queued offline still get their forecast pair
+      const forecast = pending.forecast_task_id
+        ? await KBDService.getForecastFields(
+          record.restaurant_id!,
+          pending.forecast_task_id,
+          record.check_in_date!,
+          record.answer ?? null
+        )
+        : {};
+      // Cancelled while the last file or the forecast lookup finished
+      if (controller.signal.aborted) return 'cancelled';
+
+      // From here on the record may reach the server, so cancel is refused
+      this.inserting.add(pending.id);
+      this.progressCallbacks.forEach(cb => cb(pending.id, this.getProgress(pending.id)));
+      const result = await KBDService.submitCheckIn({
+        ...record,
+        ...forecast,
+        id: pending.id,
+        media_urls: pending.uploaded_urls as string[]
+      });
+
+      if (!result.success && result.rejected) {
+        pending.needs_attention = true;
+        pending.last_error = result.error || 'Check-in rejected';
+        await CacheService.setPendingCheckIn(pending);
+        this.notify();
+        return 'rejected';
+      }
+      if (!result.success) {
+        throw new Error(result.error || 'Check-in failed');
+      }
+
+      await CacheService.removePendingCheckIn(pending.id);
+      this.pending = this.pending.filter(p => p.id !== pending.id);
+      this.progress.delete(pending.id);
+      // Submitted listeners first, so the sent record is in place when the queue change redraws
+      this.submittedCallbacks.forEach(cb => cb(pending));
+      this.notify();
+      return 'sent';
+    } catch (error) {
+      // A cancelled submission is already gone from the queue; saving it would bring it back
+      if (controller.signal.aborted) return 'cancelled';
+
+      pending.attempts += 1;
+      pending.last_error = error instanceof Error ? error.message : String(error);
+      await CacheService.setPendingCheckIn(pending);
+      this.notify();
+      return !navigator.onLine || NETWORK_ERROR_PATTERN.test(pending.last_error) ? 'offline' : 'failed';
+    } finally {
+      this.controllers.delete(pending.id);
+      this.inserting.delete(pending.id);
+    }
+  }
+
+  /**
+   * Get per-file upload state of a queued submission
+   * Files uploaded in an earlier session show as done
+   */
+  static getProgress(id: string): UploadFileProgress[] {
+    const pending = this.pending.find(p => p.id === id);
+    if (!pending) return [];
+
+    let files = this.progress.get(id);
+    if (!files) {
+      files = pending.files.map((file, i): UploadFileProgress => ({
+        name: file.name,
+        bytesSent: pending.uploaded_urls[i] ? file.size : 0,
+        bytesTotal: file.size,
+        status: pending.uploaded_urls[i] ? 'done' : 'pending',
+        error: null
+      }));
+      this.progress.set(id, files);
+    }
+    return files;
+  }
+
+  private static updateFile(pending: PendingCheckIn, index: number, update: Partial<UploadFileProgress>): void {
+    const files = [...this.getProgress(pending.id)];
+    if (!files[index]) return;
+
+    files[index] = { ...files[index]!, ...update };
+    this.progress.set(pending.id, files);
+    this.progressCallbacks.forEach(cb => cb(pending.id, files));
+  }
+
+  /**
+   * Drop queued submissions the server refused (the user has seen why)
+   */
+  static async discardRejected(): Promise<void> {
+    const rejected = this.pending.filter(p => p.needs_attention);
+    for (const pending of rejected) {
+      await CacheService.removePendingCheckIn(pending.id);
+    }
+    this.pending = this.pending.filter(p => !p.needs_attention);
+    this.notify();
+  }
+
+  /**
+   * Check if a submission is still waiting in the queue
+   */
+  static isPending(id: string): boolean {
+    return this.pending.some(p => p.id === id);
+  }
+
+  /**
+   * Get queued submissions, oldest first
+   */
+  static getPending(): PendingCheckIn[] {
+    return this.pending;
+  }
+
+  /**
+   * Register a callback for queue changes (added, retried, submitted)
+   */
+  static onChange(callback: QueueChangeCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Register a callback for queued submissions that reached the server
+   */
+  static onSubmitted(callback: (pending: PendingCheckIn) => void): () => void {
+    this.submittedCallbacks.add(callback);
+    return () => {
+      this.submittedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Register a callback for per-file upload progress (bytes sent, done, failed)
+   */
+  static onProgress(callback: ProgressCallback): () => void {
+    this.progressCallbacks.add(callback);
+    return () => {
+      this.progressCallbacks.delete(callback);
+    };
+  }
+
+  private static notify(): void {
+    this.callbacks.forEach(cb => cb(this.pending));
+  }
+}
+
+// Expose to window for debugging
+if (typeof window !== 'undefined') {
+  window.SubmissionQueueService = SubmissionQueueService;
+}
@@ -1,12 +1,12 @@
-// Version: 3.1 - Added storage timeout configuration for large file uploads
+// Version: 3.2 - Export project URL and anon key for resumable (TUS) uploads
 // Supabase client initialization with type safety
 
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database.types';
 
-// Get environment variables
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// Get environment variables (also used by resumable uploads, which bypass the client)
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables. Please check your .env file.');
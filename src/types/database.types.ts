@@ -1,4 +1,4 @@
-// Version: 1.0 - Supabase database type definitions
+// Version: 2.8 - kbd_role_permission table and kbd_review_makeup function
 // This file can be auto-generated using: npm run generate-types
 // For now, we use a basic placeholder structure
 
@@ -53,15 +53,25 @@ export interface Database {
           task_name: string
           task_description: string
           media_type: string
+          inputs: Json | null
+          answer_schema: Json | null
+          forecast_task_id: string | null
           applicable_slots: string[]
           is_routine: boolean
           weight: number
+          cooldown_days: number | null
           fixed_weekdays: number[] | null
           fixed_slots: string[] | null
+          valid_from: string | null
+          valid_until: string | null
           execute_date: string | null
           execute_slot: string | null
           is_announced: boolean
           announced_at: string | null
+          parent_task_id: string | null
+          is_required: boolean
+          min_duration_sec: number | null
+          max_duration_sec: number | null
           is_active: boolean
           created_by: string
           created_at: string
@@ -76,12 +86,29 @@ export interface Database {
           restaurant_id: string
           employee_id: string
           task_id: string
+          task_name: string | null
+          task_description: string | null
+          task_media_type: string | null
           check_in_date: string
           slot_type: string
           check_in_at: string
           is_late: boolean
+          punctuality: string | null
+          is_makeup: boolean
+          approval_status: string | null
+          approved_by: string | null
+          approved_at: string | null
           text_content: string | null
+          answer: Json | null
+          forecast_record_id: string | null
+          forecast_score: number | null
           media_urls: string[] | null
+          capture_status: string | null
+          media_captured_at: string | null
+          capture_source: string | null
+          distance_m: number | null
+          location_accuracy_m: number | null
+          is_out_of_range: boolean | null
           remark: string | null
           created_at: string
           updated_at: string
@@ -94,6 +121,15 @@ export interface Database {
           id: number
           code: string
           name: string
+          timezone: string | null
+          business_day_cutoff: string | null
+          makeup_window_days: number | null
+          task_cooldown_days: number | null
+          capture_time_policy: string | null
+          geofence_radius_m: number | null
+          geofence_required: boolean | null
+          watermark_enabled: boolean | null
+          watermark_style: Json | null
           is_active: boolean
           created_at: string
           updated_at: string
@@ -109,6 +145,10 @@ export interface Database {
           slot_type: string
           window_start: string
           window_end: string
+          on_time_deadline: string | null
+          grace_minutes: number | null
+          display_name: string | null
+          sort_order: number | null
           is_active: boolean
           created_at: string
           updated_at: string
@@ -116,9 +156,55 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['kbd_time_slot_config']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['kbd_time_slot_config']['Insert']>
       }
+      kbd_store_closure: {
+        Row: {
+          id: string
+          brand_id: number | null
+          restaurant_id: string | null
+          start_date: string
+          end_date: string
+          slot_types: string[] | null
+          reason: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['kbd_store_closure']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['kbd_store_closure']['Insert']>
+      }
+      kbd_task_announcement_ack: {
+        Row: {
+          id: string
+          task_id: string
+          employee_id: string
+          restaurant_id: string
+          acknowledged_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['kbd_task_announcement_ack']['Row'], 'id' | 'acknowledged_at'>
+        Update: Partial<Database['public']['Tables']['kbd_task_announcement_ack']['Insert']>
+      }
+      kbd_role_permission: {
+        Row: {
+          role_code: string
+          permission: string
+        }
+        Insert: Database['public']['Tables']['kbd_role_permission']['Row']
+        Update: Partial<Database['public']['Tables']['kbd_role_permission']['Insert']>
+      }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      kbd_review_makeup: {
+        Args: {
+          p_record_id: string
+          p_reviewer_id: string
+          p_password_hash: string
+          p_approved: boolean
+        }
+        Returns: Database['public']['Tables']['kbd_check_in_record']['Row']
+      }
+    }
     Enums: Record<string, never>
   }
 }
@@ -1,4 +1,4 @@
-// Version: 1.6 - Added handleVideoUpload and clearVideoSelection functions
+// Version: 2.4 - Added AnswerInputModule
 // Defines global window interfaces and Vite environment variables
 
 import type { AuthService } from '@services/auth.service';
@@ -6,12 +6,19 @@ import type { KBDService } from '@services/kbd.service';
 import type { RealtimeService } from '@services/realtime.service';
 import type { CacheService } from '@services/cache.service';
 import type { AvatarCacheService } from '@services/avatar-cache.service';
+import type { BusinessDateService } from '@services/business-date.service';
+import type { SubmissionQueueService } from '@services/submission-queue.service';
 import type { MapModule } from '@modules/map';
 import type { CheckInModule } from '@modules/checkin';
 import type { UIModule } from '@modules/ui';
 import type { EdgeIndicatorsModule } from '@modules/edge-indicators';
 import type { TimeControlModule } from '@modules/time-control';
 import type { TimeScheduler } from '@modules/time-scheduler';
+import type { MakeUpModule } from '@modules/makeup';
+import type { TaskCalendarModule } from '@modules/task-calendar';
+import type { AnnouncementModule } from '@modules/announcement';
+import type { UploadProgressModule } from '@modules/upload-progress';
+import type { AnswerInputModule } from '@modules/answer-input';
 import type { AppModule } from '@modules/app';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { SlotType } from './models';
@@ -24,6 +31,8 @@ declare global {
     RealtimeService: typeof RealtimeService;
     CacheService: typeof CacheService;
     AvatarCacheService: typeof AvatarCacheService;
+    BusinessDateService: typeof BusinessDateService;
+    SubmissionQueueService: typeof SubmissionQueueService;
     supabaseClient: SupabaseClient;
 
     // Modules
@@ -33,12 +42,18 @@ declare global {
     EdgeIndicatorsModule: typeof EdgeIndicatorsModule;
     TimeControlModule: typeof TimeControlModule;
     TimeScheduler: typeof TimeScheduler;
+    MakeUpModule: typeof MakeUpModule;
+    TaskCalendarModule: typeof TaskCalendarModule;
+    AnnouncementModule: typeof AnnouncementModule;
+    UploadProgressModule: typeof UploadProgressModule;
+    AnswerInputModule: typeof AnswerInputModule;
     AppModule: typeof AppModule;
 
     // Global functions exposed for HTML onclick handlers
     submitCheckIn: () => Promise<void>;
     startRecording: (event: Event) => Promise<void>;
     stopRecording: (event: Event) => void;
+    togglePauseRecording: () => void;
     toggleVideoRecording: () => Promise<void>;
     handleVideoUpload: (event: Event) => Promise<void>;
     clearVideoSelection: () => void;
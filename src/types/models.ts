@@ -1,9 +1,60 @@
-// Version: 1.1 - Added brand_id to Employee for login-time caching
+// Version: 3.5 - Task calendar preview permission
 // Core type definitions for KBD system
 
-export type SlotType = 'lunch_open' | 'lunch_close' | 'dinner_open' | 'dinner_close';
+// Slot code from kbd_time_slot_config.slot_type (e.g. lunch_open, breakfast_open, late_night_close)
+export type SlotType = string;
 
 export type MediaType = 'notification' | 'text' | 'image' | 'voice' | 'video';
+// Input a check-in can carry (notification tasks have none); 'answer' = structured answer from answer_schema
+export type InputType = Exclude<MediaType, 'notification'> | 'answer';
+
+// One input of a composite task (kbd_task_pool.inputs JSONB)
+export interface TaskInput {
+  type: InputType;
+  required: boolean;
+}
+
+// Structured answer a task asks for (kbd_task_pool.answer_schema JSONB)
+export type AnswerSchema =
+  | { type: 'number'; unit?: string; min?: number; max?: number; integer?: boolean }
+  | { type: 'single_choice'; options: string[] }
+  | { type: 'multi_choice'; options: string[] }
+  | { type: 'yes_no' }
+  | { type: 'checklist'; items: string[]; require_all?: boolean }; // require_all defaults to true
+
+// Typed answer stored on the record (kbd_check_in_record.answer JSONB); self-describing so it can be
+// aggregated and displayed without the task
+export type TaskAnswer =
+  | { type: 'number'; value: number; unit: string | null }
+  | { type: 'single_choice'; value: string }
+  | { type: 'multi_choice'; value: string[] }
+  | { type: 'yes_no'; value: boolean }
+  | { type: 'checklist'; value: string[]; unchecked: string[] }; // value = checked items
+
+export type PunctualityStatus = 'on_time' | 'late' | 'outside_window';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+// Permission codes granted to a role_code in kbd_role_permission
+export type RolePermission = 'review_makeup' | 'preview_task_calendar';
+
+// Whether the check-in media was taken inside the slot window (reused gallery media shows as outside)
+export type CaptureStatus = 'in_window' | 'outside_window' | 'unknown';
+// Where the capture time came from: EXIF, MP4 mvhd box, or the file's lastModified (weakest)
+export type CaptureSource = 'exif' | 'mp4' | 'file';
+
+// Brand setting for media captured outside the window: 'flag' = accept and mark, 'reject' = refuse the file
+export type CaptureTimePolicy = 'flag' | 'reject';
+
+// Corner of the photo the watermark is drawn in
+export type WatermarkPosition = 'bottom-left' | 'bottom-right' | 'top-left' | 'top-right';
+
+// Brand watermark style (master_brand.watermark_style JSONB); missing fields use the defaults
+export interface WatermarkStyle {
+  position?: WatermarkPosition; // Default bottom-left
+  text_color?: string; // CSS color, default white
+  background?: string; // CSS color behind the text, default translucent black
+  font_scale?: number; // Text height relative to the shorter image side, default 0.032
+}
 
 export interface Restaurant {
   id: string;
@@ -18,8 +69,11 @@ export interface Restaurant {
   // Extended fields (populated by joins or client logic)
   master_employee?: Employee[];
   checked?: boolean;
-  checkInData?: CheckInRecord | null;
+  checkInData?: CheckInRecord | null; // Primary task's record (thumbnail/text bubble)
+  checkIns?: CheckInRecord[]; // Every record for the displayed date + slot (primary and attached tasks)
   displayMode?: boolean;
+  closure?: StoreClosure | null; // Set when the store is closed for the displayed date + slot
+  queued?: boolean; // Current user's check-in for the slot is waiting in the offline queue
 }
 
 export interface Employee {
@@ -34,6 +88,7 @@ export interface Employee {
   login_failed_count: number;
   profile_photo_url: string | null;
   brand_id?: number; // Cached from master_restaurant at login
+  permissions?: RolePermission[]; // Cached from kbd_role_permission at login
   created_at?: string;
   updated_at?: string;
 }
@@ -45,15 +100,25 @@ export interface Task {
   task_name: string;
   task_description: string;
   media_type: MediaType;
+  inputs: TaskInput[] | null; // Composite task inputs in display order, NULL = media_type only
+  answer_schema: AnswerSchema | null; // Structured answer (number/choice/yes-no/checklist), NULL = none
+  forecast_task_id: string | null; // Set on a closing "actual" task: the opening forecast task it is scored against
   applicable_slots: SlotType[];
   is_routine: boolean;
   weight: number;
+  cooldown_days: number | null; // Days before a routine pick can repeat, NULL = brand default
   fixed_weekdays: number[] | null;
   fixed_slots: SlotType[] | null;
+  valid_from: string | null; // YYYY-MM-DD, routine task eligible from this business date (NULL = no start)
+  valid_until: string | null; // YYYY-MM-DD inclusive (NULL = no end)
   execute_date: string | null;
   execute_slot: SlotType | null;
   is_announced: boolean;
   announced_at: string | null;
+  parent_task_id: string | null; // Set = attached to that primary task's slot checklist, never resolved on its own
+  is_required: boolean; // Attached tasks only: true = must be done before the slot counts as checked, false = bonus
+  min_duration_sec: number | null; // Voice tasks: shorter recordings are discarded, NULL = 3
+  max_duration_sec: number | null; // Voice tasks: recording auto-stops here, NULL = 60
   is_active: boolean;
   created_by: string;
   created_at?: string;
@@ -65,21 +130,63 @@ export interface CheckInRecord {
   restaurant_id: string;
   employee_id: string;
   task_id: string;
+  // Task as shown to the manager at submission (NULL for records created before snapshots)
+  task_name: string | null;
+  task_description: string | null;
+  task_media_type: MediaType | null;
   check_in_date: string;
   slot_type: SlotType;
   check_in_at: string;
   is_late: boolean;
+  punctuality: PunctualityStatus | null; // NULL for records created before punctuality tracking
+  is_makeup: boolean; // 补卡: submitted after the slot's window for a past date+slot
+  approval_status: ApprovalStatus | null; // Only set for make-up records
+  approved_by: string | null;
+  approved_at: string | null;
   text_content: string | null;
+  answer: TaskAnswer | null; // Structured answer, NULL for tasks without answer_schema
+  // Actual-figure records of a forecast pair: the same-day forecast record and how close it was (0-1)
+  forecast_record_id: string | null;
+  forecast_score: number | null;
   media_urls: string[] | null;
+  // Capture-time check of the media (NULL for text/voice and records from before the check)
+  capture_status: CaptureStatus | null;
+  media_captured_at: string | null; // Capture time behind capture_status (the outside file, else the earliest)
+  capture_source: CaptureSource | null;
+  // Geofence: device distance to the store when submitting (NULL = location not available / make-up)
+  distance_m: number | null;
+  location_accuracy_m: number | null;
+  is_out_of_range: boolean | null;
   remark: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// Running forecast accuracy (average score 0-1 over count scored pairs)
+export interface ForecastAccuracy {
+  score: number;
+  count: number;
+}
+
+// Forecast accuracy of a store and of each manager who made its forecasts
+export interface ForecastAccuracySummary {
+  store: ForecastAccuracy | null;
+  managers: Array<ForecastAccuracy & { employeeId: string }>;
+}
+
 export interface Brand {
   id: number;
   code: string;
   name: string;
+  timezone: string | null; // IANA name, NULL = Asia/Shanghai
+  business_day_cutoff: string | null; // HH:MM:SS, check-ins before this belong to the previous day
+  makeup_window_days: number | null; // How many past days can be made up, NULL = 3
+  task_cooldown_days: number | null; // Default routine task cooldown, NULL/0 = tasks may repeat
+  capture_time_policy: CaptureTimePolicy | null; // Media taken outside the slot window, NULL = flag
+  geofence_radius_m: number | null; // Allowed distance from the store, NULL = 300m (both NULL = no geofence)
+  geofence_required: boolean | null; // true = refuse check-ins out of range or without location, else only flag
+  watermark_enabled: boolean | null; // Burn store/slot/time/employee into check-in photos, NULL = off
+  watermark_style: WatermarkStyle | null; // NULL = default style
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
@@ -92,11 +199,62 @@ export interface TimeSlotConfig {
   slot_type: SlotType;
   window_start: string;
   window_end: string;
+  on_time_deadline: string | null; // NULL = window_end
+  grace_minutes: number | null; // Minutes after deadline still counted as on time
+  display_name: string | null; // NULL = built-in label for the original four slots, else slot_type
+  sort_order: number | null; // NULL = ordered by window_start from the business day cutoff
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Closure calendar entry (renovation, Spring Festival, inspection...)
+// restaurant_id set = one store; restaurant_id NULL + brand_id set = every store of the brand
+export interface StoreClosure {
+  id: string;
+  brand_id: number | null;
+  restaurant_id: string | null;
+  start_date: string; // YYYY-MM-DD (business date, inclusive)
+  end_date: string; // YYYY-MM-DD (business date, inclusive)
+  slot_types: SlotType[] | null; // NULL = whole day
+  reason: string | null;
   is_active: boolean;
+  created_by: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// One user's acknowledgement of an announced temporary task (HQ read tracking)
+export interface TaskAnnouncementAck {
+  id: string;
+  task_id: string;
+  employee_id: string;
+  restaurant_id: string;
+  acknowledged_at: string;
+}
+
+// Check-in waiting in the offline queue (IndexedDB) until its media and record are uploaded
+export interface PendingCheckIn {
+  id: string; // Client-generated, also used as the record id so a retried insert cannot create a duplicate
+  record: Partial<CheckInRecord>; // Fields fixed at submission: date, slot, check_in_at (capture time), punctuality...
+  files: File[]; // Compressed image / voice / video still to upload
+  uploaded_urls: (string | null)[]; // Public URL per file (same index as files), null/missing = not uploaded yet
+  attempts: number;
+  last_error: string | null;
+  needs_attention?: boolean; // Server refused the record (RLS, foreign key, validation): not retried automatically
+  forecast_task_id?: string | null; // Actual-figure check-in: forecast task to score against when the record is inserted
+  queued_at: number;
+}
+
+// Upload state of one queued file (kept in memory for the progress card)
+export interface UploadFileProgress {
+  name: string;
+  bytesSent: number;
+  bytesTotal: number;
+  status: 'pending' | 'uploading' | 'done' | 'failed';
+  error: string | null;
+}
+
 // API Response types
 export interface LoginResponse {
   success: boolean;
@@ -104,6 +262,12 @@ export interface LoginResponse {
   error?: string;
 }
 
+export interface MissedSlot {
+  check_in_date: string;
+  slot_type: SlotType;
+  submitted_task_ids: string[]; // Checklist tasks already submitted for the slot (e.g. a bonus task)
+}
+
 export interface TimeSlotDetectionResult {
   currentSlotType: SlotType | null;
   isInTimeWindow: boolean;
@@ -0,0 +1,56 @@
+// Version: 1.0 - Structured task answers: validation against the task's schema and display text
+// Answers are stored typed (kbd_check_in_record.answer) so HQ can compare and aggregate them
+
+import type { AnswerSchema, TaskAnswer } from '@/types/models';
+
+/**
+ * Check an answer against its schema
+ * @returns Message to show, or null when the answer is acceptable
+ */
+export function validateAnswer(schema: AnswerSchema, answer: TaskAnswer): string | null {
+  switch (schema.type) {
+    case 'number': {
+      const unit = schema.unit ? ` ${schema.unit}` : '';
+      if (answer.type !== 'number' || !Number.isFinite(answer.value)) return '请输入数字';
+      if (schema.integer && !Number.isInteger(answer.value)) return '请输入整数';
+      if (schema.min !== undefined && answer.value < schema.min) return `不能小于 ${schema.min}${unit}`;
+      if (schema.max !== undefined && answer.value > schema.max) return `不能大于 ${schema.max}${unit}`;
+      return null;
+    }
+    case 'single_choice':
+      return answer.type === 'single_choice' && schema.options.includes(answer.value) ? null : '请选择一项';
+    case 'multi_choice':
+      return answer.type === 'multi_choice' && answer.value.length > 0 ? null : '请至少选择一项';
+    case 'yes_no':
+      return answer.type === 'yes_no' ? null : '请选择是或否';
+    case 'checklist': {
+      if (answer.type !== 'checklist') return '请勾选清单';
+      if ((schema.require_all ?? true) && answer.unchecked.length > 0) {
+        return `还有 ${answer.unchecked.length} 项未完成：${answer.unchecked.join('、')}`;
+      }
+      return answer.value.length > 0 ? null : '请至少勾选一项';
+    }
+  }
+}
+
+/**
+ * Display text of an answer (history, map bubble)
+ */
+export function formatAnswer(answer: TaskAnswer): string {
+  switch (answer.type) {
+    case 'number':
+      return `${answer.value}${answer.unit ? ` ${answer.unit}` : ''}`;
+    case 'single_choice':
+      return answer.value;
+    case 'multi_choice':
+      return answer.value.join('、');
+    case 'yes_no':
+      return answer.value ? '是' : '否';
+    case 'checklist': {
+      const total = answer.value.length + answer.unchecked.length;
+      return answer.unchecked.length === 0
+        ? `全部完成 ${total}/${total}`
+        : `完成 ${answer.value.length}/${total}，未完成：${answer.unchecked.join('、')}`;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// Version: 1.0 - Voice recording helpers: codec choice, live level meter, waveform preview
+// Opus/WebM where supported (Chrome, Firefox, Android); AAC/MP4 on iOS Safari, which cannot record WebM
+
+// First supported wins
+const MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm'
+];
+
+// Voice needs far less than MediaRecorder's default bitrate
+const AUDIO_BITRATE = 48_000;
+
+export interface LevelMeter {
+  getLevel(): number; // 0-1 RMS level of the latest audio frame
+  close(): Promise<void>;
+}
+
+/**
+ * Create a MediaRecorder with the best audio codec this browser supports
+ */
+export function createVoiceRecorder(stream: MediaStream): MediaRecorder {
+  const mimeType = typeof MediaRecorder.isTypeSupported === 'function'
+    ? MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+
+  return mimeType
+    ? new MediaRecorder(stream, { mimeType, audioBitsPerSecond: AUDIO_BITRATE })
+    : new MediaRecorder(stream);
+}
+
+/**
+ * File extension for a recorded audio MIME type
+ */
+export function getAudioExtension(mimeType: string): string {
+  if (mimeType.startsWith('audio/mp4')) return 'm4a';
+  if (mimeType.startsWith('audio/ogg')) return 'ogg';
+  return 'webm';
+}
+
+/**
+ * Measure the live input level of a microphone stream
+ */
+export function createLevelMeter(stream: MediaStream): LevelMeter {
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      // Speech RMS rarely passes 0.3; scale so normal talking fills most of the meter
+      return Math.min(1, Math.sqrt(sum / samples.length) * 3);
+    },
+    close: () => audioContext.close()
+  };
+}
+
+/**
+ * Decode a recording and reduce it to peak values (0-1), one per bar
+ */
+export async function computeWaveform(blob: Blob, bars: number): Promise<number[]> {
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+    const data = buffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(data.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const start = bar * samplesPerBar;
+      for (let i = start; i < start + samplesPerBar && i < data.length; i++) {
+        peak = Math.max(peak, Math.abs(data[i]!));
+      }
+      peaks.push(peak);
+    }
+
+    // Normalize so quiet recordings are still visible
+    const max = Math.max(...peaks, 0.01);
+    return peaks.map(peak => peak / max);
+  } finally {
+    await audioContext.close();
+  }
+}
+
+/**
+ * Draw waveform bars centered vertically on a canvas
+ */
+export function drawWaveform(canvas: HTMLCanvasElement, peaks: number[], color: string): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || peaks.length === 0) return;
+
+  // Sharp on high-DPI screens
+  const ratio = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  ctx.scale(ratio, ratio);
+  ctx.clearRect(0, 0, width, height);
+
+  const step = width / peaks.length;
+  const barWidth = Math.max(1, step * 0.6);
+  ctx.fillStyle = color;
+  peaks.forEach((peak, i) => {
+    const barHeight = Math.max(2, peak * height);
+    ctx.fillRect(i * step, (height - barHeight) / 2, barWidth, barHeight);
+  });
+}
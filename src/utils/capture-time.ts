@@ -0,0 +1,222 @@
+// Version: 1.1 - Make-up media checked against the time it is picked, not the missed window
+// Used to spot gallery media reused from an earlier day; must run before compression strips metadata
+
+import { offsetFromStart } from './time-window';
+import type { TimeSlotConfig, CaptureSource } from '@/types/models';
+
+export interface CaptureTime {
+  capturedAt: Date;
+  source: CaptureSource;
+}
+
+// EXIF sits in the first APP1 segment, well within this
+const EXIF_SCAN_BYTES = 256 * 1024;
+// moov boxes larger than this are skipped (mvhd is its first child, but the box is read whole)
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+// Seconds between 1904-01-01 (MP4 epoch) and 1970-01-01
+const MP4_EPOCH_OFFSET_SEC = 2082844800;
+// Shots taken shortly before the window opens still count (setting up, clock drift)
+const CAPTURE_TOLERANCE_SEC = 15 * 60;
+// Make-ups are photographed when they are made up, not in the missed slot
+const MAKEUP_CAPTURE_MAX_AGE_SEC = 2 * 60 * 60;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+/**
+ * Read when a file was captured: EXIF DateTimeOriginal (JPEG), mvhd creation time (MP4/MOV),
+ * else the file's lastModified
+ * @returns Capture time, or null when nothing usable is found
+ */
+export async function readCaptureTime(file: File): Promise<CaptureTime | null> {
+  try {
+    if (file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)) {
+      const exifTime = await readExifTime(file);
+      if (exifTime) return { capturedAt: exifTime, source: 'exif' };
+    } else if (file.type.startsWith('video/')) {
+      const mp4Time = await readMp4CreationTime(file);
+      if (mp4Time) return { capturedAt: mp4Time, source: 'mp4' };
+    }
+  } catch (error) {
+    // Unreadable metadata: fall back to lastModified
+  }
+
+  return file.lastModified ? { capturedAt: new Date(file.lastModified), source: 'file' } : null;
+}
+
+/**
+ * Check if a capture lies in a slot window on the expected business date
+ * @param captureDate - Business date of the capture (YYYY-MM-DD)
+ * @param captureTime - Brand-local capture time (HH:MM:SS)
+ * @param expectedDate - Business date being checked in for
+ */
+export function isCapturedInWindow(
+  config: TimeSlotConfig,
+  captureDate: string,
+  captureTime: string,
+  expectedDate: string
+): boolean {
+  if (captureDate !== expectedDate) return false;
+
+  const elapsed = offsetFromStart(captureTime, config.window_start);
+  const windowLength = offsetFromStart(config.window_end, config.window_start);
+  const secondsBeforeStart = 24 * 60 * 60 - elapsed;
+
+  return elapsed <= windowLength || secondsBeforeStart <= CAPTURE_TOLERANCE_SEC;
+}
+
+/**
+ * Check if a make-up's capture is fresh: taken shortly before it was picked for submission
+ * (a little after also counts, for clock drift between camera and phone)
+ * @param now - Time the file is picked
+ */
+export function isCapturedForMakeUp(capturedAt: Date, now: Date): boolean {
+  const ageSec = (now.getTime() - capturedAt.getTime()) / 1000;
+  return ageSec <= MAKEUP_CAPTURE_MAX_AGE_SEC && ageSec >= -CAPTURE_TOLERANCE_SEC;
+}
+
+/**
+ * Parse EXIF DateTimeOriginal (falls back to DateTime) from a JPEG
+ * Without OffsetTimeOriginal the time is taken as the device's local time
+ */
+async function readExifTime(file: File): Promise<Date | null> {
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+  // Walk JPEG segments to APP1 "Exif\0\0"
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && readAscii(view, offset + 4, 4) === 'Exif') {
+      return parseTiff(view, offset + 10);
+    }
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Find date tags in the TIFF structure inside the EXIF segment
+ */
+function parseTiff(view: DataView, tiffStart: number): Date | null {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+
+  const ifd0Tags = readIfd(view, tiffStart, ifd0, littleEndian);
+  const exifIfdOffset = ifd0Tags.get(TAG_EXIF_IFD);
+  const exifTags = exifIfdOffset !== undefined
+    ? readIfd(view, tiffStart, tiffStart + exifIfdOffset, littleEndian)
+    : new Map<number, number>();
+
+  const original = exifTags.get(TAG_DATE_TIME_ORIGINAL);
+  const fallback = ifd0Tags.get(TAG_DATE_TIME);
+  const valueOffset = original ?? fallback;
+  if (valueOffset === undefined) return null;
+
+  const dateTime = readAscii(view, tiffStart + valueOffset, 19);
+  const zoneOffset = exifTags.get(TAG_OFFSET_TIME_ORIGINAL);
+  const zone = original !== undefined && zoneOffset !== undefined
+    ? readAscii(view, tiffStart + zoneOffset, 6)
+    : null;
+
+  return parseExifDateTime(dateTime, zone);
+}
+
+/**
+ * Read an IFD into tag -> value/offset (only the 4-byte value field is kept)
+ */
+function readIfd(view: DataView, tiffStart: number, ifdStart: number, littleEndian: boolean): Map<number, number> {
+  const tags = new Map<number, number>();
+  if (ifdStart + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    tags.set(view.getUint16(entry, littleEndian), view.getUint32(entry + 8, littleEndian));
+  }
+  return tags;
+}
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" (+ optional "+08:00") to Date
+ */
+function parseExifDateTime(value: string, zone: string | null): Date | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number) as number[];
+  const date = zone && /^[+-]\d{2}:\d{2}$/.test(zone)
+    ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`)
+    : new Date(year!, month! - 1, day!, hours!, minutes!, seconds!);
+
+  return isNaN(date.getTime()) || year === 0 ? null : date;
+}
+
+/**
+ * Read the creation time of an MP4/MOV from moov/mvhd
+ */
+async function readMp4CreationTime(file: File): Promise<Date | null> {
+  // Walk top-level boxes to moov (often at the end of phone recordings)
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = readAscii(header, 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const moov = new DataView(await file.slice(offset + headerSize, offset + size).arrayBuffer());
+      return findMvhdTime(moov);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Find mvhd among moov's children and read its creation time
+ */
+function findMvhdTime(moov: DataView): Date | null {
+  let offset = 0;
+  while (offset + 8 <= moov.byteLength) {
+    const size = moov.getUint32(offset);
+    if (size < 8) return null;
+
+    if (readAscii(moov, offset + 4, 4) === 'mvhd') {
+      const version = moov.getUint8(offset + 8);
+      const seconds = version === 1
+        ? Number(moov.getBigUint64(offset + 12))
+        : moov.getUint32(offset + 12);
+
+      // 0 = not set by the recorder
+      if (seconds <= MP4_EPOCH_OFFSET_SEC) return null;
+      return new Date((seconds - MP4_EPOCH_OFFSET_SEC) * 1000);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
@@ -0,0 +1,82 @@
+// Version: 1.0 - Slot checklist: primary task plus attached required/bonus tasks
+// A slot counts as checked once the primary task and every required attached task have a record
+
+import type { Task, CheckInRecord } from '@/types/models';
+
+// Task fields needed to decide slot completion
+export type ChecklistTaskRef = Pick<Task, 'id' | 'parent_task_id' | 'is_required' | 'is_active'>;
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+  requiredDone: number;
+  requiredTotal: number;
+  complete: boolean; // All required tasks done
+}
+
+/**
+ * Check if a task must be done for the slot to count (primary tasks always are)
+ */
+export function isRequiredTask(task: ChecklistTaskRef): boolean {
+  return !task.parent_task_id || task.is_required;
+}
+
+/**
+ * Build a slot checklist: primary first, then required attached tasks, then bonus tasks
+ * @param attached - Active tasks whose parent_task_id is the primary task (input order kept per group)
+ */
+export function buildChecklist(primary: Task, attached: Task[]): Task[] {
+  const own = attached.filter(t => t.parent_task_id === primary.id && t.is_active);
+  return [
+    primary,
+    ...own.filter(t => t.is_required),
+    ...own.filter(t => !t.is_required)
+  ];
+}
+
+/**
+ * Progress across a checklist given the task ids already submitted
+ */
+export function getChecklistProgress(checklist: Task[], submittedTaskIds: string[]): ChecklistProgress {
+  const submitted = new Set(submittedTaskIds);
+  const required = checklist.filter(isRequiredTask);
+  const requiredDone = required.filter(t => submitted.has(t.id)).length;
+
+  return {
+    done: checklist.filter(t => submitted.has(t.id)).length,
+    total: checklist.length,
+    requiredDone,
+    requiredTotal: required.length,
+    complete: checklist.length > 0 && requiredDone === required.length
+  };
+}
+
+/**
+ * Next task to fill in: first open required task, then first open bonus task
+ * @returns Task, or null when everything is submitted
+ */
+export function getNextChecklistTask(checklist: Task[], submittedTaskIds: string[]): Task | null {
+  const open = checklist.filter(t => !submittedTaskIds.includes(t.id));
+  return open.find(isRequiredTask) ?? open[0] ?? null;
+}
+
+/**
+ * Check if one store's records complete a slot
+ * Records of tasks missing from refs are treated as primaries without attached tasks,
+ * so records from before checklists (or of deleted tasks) still count
+ * @param records - The store's non-rejected records for one date + slot
+ * @param refs - Tasks of those records plus every task attached to them
+ */
+export function isSlotComplete(records: Pick<CheckInRecord, 'task_id'>[], refs: ChecklistTaskRef[]): boolean {
+  const submitted = new Set(records.map(r => r.task_id));
+  const refById = new Map(refs.map(ref => [ref.id, ref]));
+
+  return records.some(record => {
+    const ref = refById.get(record.task_id);
+    if (ref?.parent_task_id) return false;
+
+    return refs
+      .filter(child => child.parent_task_id === record.task_id && child.is_required && child.is_active)
+      .every(child => submitted.has(child.id));
+  });
+}
@@ -0,0 +1,46 @@
+// Version: 1.0 - Store closure / holiday calendar lookup
+// A closed store has no check-in obligation for that date (+ slot), so it is neither missed nor counted
+
+import type { StoreClosure, SlotType } from '@/types/models';
+
+/**
+ * Find the closure covering a restaurant on a business date (and slot, if given)
+ * Store-specific closures win over brand-wide ones so their reason is shown
+ * @param restaurant - Restaurant id and brand
+ * @param date - Business date YYYY-MM-DD
+ * @param slotType - Slot to check; omit to only match whole-day closures
+ */
+export function findClosure(
+  closures: StoreClosure[],
+  restaurant: { id: string; brand_id: number },
+  date: string,
+  slotType: SlotType | null = null
+): StoreClosure | null {
+  const matches = closures.filter(closure => {
+    if (!closure.is_active) return false;
+    if (date < closure.start_date || date > closure.end_date) return false;
+
+    const appliesToStore = closure.restaurant_id !== null
+      ? closure.restaurant_id === restaurant.id
+      : closure.brand_id === restaurant.brand_id;
+    if (!appliesToStore) return false;
+
+    const slots = closure.slot_types;
+    if (!slots || slots.length === 0) return true;
+    return slotType !== null && slots.includes(slotType);
+  });
+
+  return matches.find(c => c.restaurant_id !== null) ?? matches[0] ?? null;
+}
+
+/**
+ * Check if a restaurant is closed for a date + slot
+ */
+export function isClosed(
+  closures: StoreClosure[],
+  restaurant: { id: string; brand_id: number },
+  date: string,
+  slotType: SlotType | null = null
+): boolean {
+  return findClosure(closures, restaurant, date, slotType) !== null;
+}
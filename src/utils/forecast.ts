@@ -0,0 +1,42 @@
+// Version: 1.0 - Forecast-versus-actual scoring for linked opening/closing task pairs
+// The closing task's answer is the actual figure; the score (0-1) is stored on its record
+
+import type { TaskAnswer, ForecastAccuracy } from '@/types/models';
+
+/**
+ * Score a forecast against the actual answer
+ * Numbers: 1 - relative error (floored at 0); choices and yes/no: hit or miss;
+ * multiple choice: overlap of the two sets (Jaccard)
+ * @returns Score 0-1, or null when the answers cannot be compared (different types, checklists)
+ */
+export function scoreForecast(forecast: TaskAnswer, actual: TaskAnswer): number | null {
+  if (forecast.type === 'number' && actual.type === 'number') {
+    const error = Math.abs(actual.value - forecast.value) / Math.max(Math.abs(actual.value), 1);
+    return Math.max(0, 1 - error);
+  }
+  if (forecast.type === 'single_choice' && actual.type === 'single_choice') {
+    return forecast.value === actual.value ? 1 : 0;
+  }
+  if (forecast.type === 'yes_no' && actual.type === 'yes_no') {
+    return forecast.value === actual.value ? 1 : 0;
+  }
+  if (forecast.type === 'multi_choice' && actual.type === 'multi_choice') {
+    const union = new Set([...forecast.value, ...actual.value]);
+    if (union.size === 0) return null;
+    const hits = forecast.value.filter(option => actual.value.includes(option)).length;
+    return hits / union.size;
+  }
+  return null;
+}
+
+/**
+ * Average a list of scores
+ * @returns Accuracy, or null when there is nothing scored yet
+ */
+export function averageAccuracy(scores: number[]): ForecastAccuracy | null {
+  if (scores.length === 0) return null;
+  return {
+    score: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    count: scores.length
+  };
+}
@@ -0,0 +1,98 @@
+// Version: 1.0 - Device location and store distance for geofenced check-ins
+// Store coordinates are GCJ-02 (they line up with the Gaode tiles); browsers report WGS-84,
+// so the device position is shifted to GCJ-02 before measuring (the offset is 100-600m in China)
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface DevicePosition extends LatLng {
+  accuracy: number; // Meters (68% confidence radius reported by the browser)
+}
+
+const EARTH_RADIUS_M = 6371000;
+// Krasovsky 1940 ellipsoid used by GCJ-02
+const GCJ_A = 6378245.0;
+const GCJ_EE = 0.00669342162296594323;
+
+function isOutOfChina(lat: number, lng: number): boolean {
+  return lng < 72.004 || lng > 137.8347 || lat < 0.8293 || lat > 55.8271;
+}
+
+function transformLat(x: number, y: number): number {
+  let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin(y / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (160.0 * Math.sin(y / 12.0 * Math.PI) + 320 * Math.sin(y * Math.PI / 30.0)) * 2.0 / 3.0;
+  return ret;
+}
+
+function transformLng(x: number, y: number): number {
+  let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin(x / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (150.0 * Math.sin(x / 12.0 * Math.PI) + 300.0 * Math.sin(x / 30.0 * Math.PI)) * 2.0 / 3.0;
+  return ret;
+}
+
+/**
+ * Convert WGS-84 (GPS / browser) coordinates to GCJ-02 (Gaode, store coordinates)
+ * Outside China both systems are the same
+ */
+export function wgs84ToGcj02(point: LatLng): LatLng {
+  if (isOutOfChina(point.lat, point.lng)) return point;
+
+  let dLat = transformLat(point.lng - 105.0, point.lat - 35.0);
+  let dLng = transformLng(point.lng - 105.0, point.lat - 35.0);
+  const radLat = point.lat / 180.0 * Math.PI;
+  let magic = Math.sin(radLat);
+  magic = 1 - GCJ_EE * magic * magic;
+  const sqrtMagic = Math.sqrt(magic);
+  dLat = (dLat * 180.0) / ((GCJ_A * (1 - GCJ_EE)) / (magic * sqrtMagic) * Math.PI);
+  dLng = (dLng * 180.0) / (GCJ_A / sqrtMagic * Math.cos(radLat) * Math.PI);
+
+  return { lat: point.lat + dLat, lng: point.lng + dLng };
+}
+
+/**
+ * Great-circle distance in meters (haversine)
+ */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Check if a measured distance is outside the radius
+ * Accuracy gives the benefit of the doubt, but at most one radius, so a vague fix cannot pass from anywhere
+ */
+export function isOutOfRange(distance: number, accuracy: number, radius: number): boolean {
+  return distance - Math.min(accuracy, radius) > radius;
+}
+
+/**
+ * Get the device position (WGS-84) from the browser
+ * @returns Position, or null when unsupported, denied or timed out
+ */
+export function getDevicePosition(timeoutMs: number): Promise<DevicePosition | null> {
+  return new Promise(resolve => {
+    if (!('geolocation' in navigator)) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60 * 1000 }
+    );
+  });
+}
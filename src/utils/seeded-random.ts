@@ -1,9 +1,9 @@
-// Version: 1.0 - Seeded random utilities for deterministic task selection
+// Version: 1.4 - Earliest replay start for callers that fetch the replayed days' data
 // Implements djb2 hash and Mulberry32 PRNG for consistent random task assignment across clients
 
 /**
  * Generates a 32-bit integer seed from date, brand ID, and slot type using djb2 hash algorithm
- * @param date - Date string in 'YYYY-MM-DD' format
+ * @param date - Business date string in 'YYYY-MM-DD' format (from BusinessDateService, not the UTC date)
  * @param brandId - Brand identifier (integer)
  * @param slotType - Time slot type (e.g., 'lunch_open', 'dinner_close')
  * @returns 32-bit unsigned integer seed
@@ -80,7 +80,7 @@ export function weightedRandomSelect<T>(
 /**
  * Convenience function: selects a daily task deterministically based on date, brand, and slot
  * @param tasks - Array of tasks with id and weight properties
- * @param date - Date string 'YYYY-MM-DD'
+ * @param date - Business date string 'YYYY-MM-DD'
  * @param brandId - Brand ID (integer)
  * @param slotType - Time slot type
  * @returns Selected task object, or null if task array is empty or invalid
@@ -113,3 +113,93 @@ export function selectDailyTask<T extends { id: string; weight: number }>(
 
   return tasks[selectedIndex] ?? null;
 }
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Day number (days since 1970-01-01) of a 'YYYY-MM-DD' date
+ */
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year ?? 1970, (month ?? 1) - 1, day ?? 1) / MS_PER_DAY);
+}
+
+/**
+ * 'YYYY-MM-DD' date of a day number
+ */
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0]!;
+}
+
+/**
+ * First day of the cooldown replay for a date
+ * Anchored on multiples of the lookback, so every date in the same block replays from the same day
+ * (and agrees on the picks before it); the replay covers between 1 and 2 lookbacks
+ * @param date - Business date string 'YYYY-MM-DD'
+ * @param lookbackDays - Block length in days (at least 1)
+ * @returns Replay start date 'YYYY-MM-DD'
+ */
+export function getReplayStart(date: string, lookbackDays: number): string {
+  const block = Math.max(1, Math.floor(lookbackDays));
+  return fromDayNumber((Math.floor(toDayNumber(date) / block) - 1) * block);
+}
+
+/**
+ * Earliest day getReplayStart can return for a date with any block length up to lookbackDays
+ * @param date - Business date string 'YYYY-MM-DD'
+ * @param lookbackDays - Longest block length in use
+ * @returns Date 'YYYY-MM-DD'
+ */
+export function getEarliestReplayStart(date: string, lookbackDays: number): string {
+  const block = Math.max(1, Math.floor(lookbackDays));
+  return fromDayNumber(toDayNumber(date) - 2 * block + 1);
+}
+
+/**
+ * Selects a daily task with an anti-repetition cooldown
+ * A task picked on day D is skipped on days D+1..D+N (N = its cooldown). If every candidate is
+ * cooling down, the full pool is used so the slot never ends up without a task.
+ * Picks for earlier days are rebuilt by replaying selectDailyTask from an anchored start (see
+ * getReplayStart), so every client reaches the same history (and the same task) without sharing state.
+ * A pool edit only changes the replay from the current block on, never picks of long-past days
+ * @param getPool - Candidates for a date (weekday 0=Sunday); return [] for days without a weighted pick
+ * @param date - Business date string 'YYYY-MM-DD'
+ * @param brandId - Brand ID (integer)
+ * @param slotType - Time slot type
+ * @param getCooldownDays - Cooldown of a task in days (0 = may repeat)
+ * @param lookbackDays - Replay block length; must be the same on every client
+ * @returns Selected task object, or null if the pool for the date is empty
+ */
+export function selectDailyTaskWithCooldown<T extends { id: string; weight: number }>(
+  getPool: (date: string, weekday: number) => T[],
+  date: string,
+  brandId: number,
+  slotType: string,
+  getCooldownDays: (task: T) => number,
+  lookbackDays: number
+): T | null {
+  const lastPicked = new Map<string, number>(); // task id -> day number
+  const target = toDayNumber(date);
+  let selected: T | null = null;
+
+  for (let day = toDayNumber(getReplayStart(date, lookbackDays)); day <= target; day++) {
+    const dayDate = fromDayNumber(day);
+    const pool = getPool(dayDate, new Date(day * MS_PER_DAY).getUTCDay());
+    if (pool.length === 0) {
+      selected = null;
+      continue;
+    }
+
+    const available = pool.filter(task => {
+      const last = lastPicked.get(task.id);
+      return last === undefined || day - last > getCooldownDays(task);
+    });
+
+    selected = selectDailyTask(available.length > 0 ? available : pool, dayDate, brandId, slotType);
+    if (selected) {
+      lastPicked.set(selected.id, day);
+    }
+  }
+
+  return selected;
+}
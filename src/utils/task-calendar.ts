@@ -0,0 +1,98 @@
+// Version: 1.2 - Temporary tasks fetched for the resolver's replay and forecast pairs
+// Selection is seeded from date+brand+slot, so future days can be resolved ahead of time for review
+
+import { BusinessDateService } from '@services/business-date.service';
+import { resolveTask, getTaskScope } from './task-resolver';
+import type { TaskScope, TaskSource, RoutineSelectionOptions } from './task-resolver';
+import type { Task, SlotType } from '@/types/models';
+
+/**
+ * Problems ops should look at before stores see the plan
+ * - no_task: nothing resolves for the slot
+ * - repeat_same_day: the task also appears in another slot of the same day
+ * - repeat_previous_day: same task in the same slot as the previous day
+ * - unannounced_temporary: a temporary task is scheduled but not announced, so stores will not get it
+ */
+export type CalendarIssue = 'no_task' | 'repeat_same_day' | 'repeat_previous_day' | 'unannounced_temporary';
+
+export interface TaskCalendarSlot {
+  slotType: SlotType;
+  task: Task | null;
+  scope: TaskScope | null;
+  source: TaskSource | null;
+  issues: CalendarIssue[];
+}
+
+export interface TaskCalendarDay {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0=Sunday, 6=Saturday
+  slots: TaskCalendarSlot[];
+}
+
+export interface TaskCalendarOptions extends RoutineSelectionOptions {
+  brandId: number;
+  restaurantId: string | null; // null = brand view (store-specific temporary tasks ignored)
+  dates: string[]; // Business dates in display order
+  slotTypes: SlotType[]; // Slots in business-day order
+}
+
+/**
+ * Resolve the task for every date + slot and flag bad combinations
+ * @param tasks - Routine pool plus temporary tasks (announced or not) from getTemporaryFetchStart to the last date
+ */
+export function buildTaskCalendar(tasks: Task[], options: TaskCalendarOptions): TaskCalendarDay[] {
+  const { brandId, slotTypes } = options;
+  const restaurantId = options.restaurantId ?? '';
+
+  const days: TaskCalendarDay[] = options.dates.map(date => {
+    const weekday = BusinessDateService.getWeekday(date);
+
+    const slots = slotTypes.map(slotType => {
+      const resolved = resolveTask(tasks, { brandId, restaurantId, date, weekday, slotType }, options);
+
+      const hasUnannounced = tasks.some(task =>
+        !task.is_routine &&
+        task.is_active &&
+        !task.is_announced &&
+        task.execute_date === date &&
+        task.execute_slot === slotType &&
+        getTaskScope(task, brandId, restaurantId) !== null
+      );
+
+      const issues: CalendarIssue[] = [];
+      if (!resolved) issues.push('no_task');
+      if (hasUnannounced) issues.push('unannounced_temporary');
+
+      return {
+        slotType,
+        task: resolved?.task ?? null,
+        scope: resolved?.scope ?? null,
+        source: resolved?.source ?? null,
+        issues
+      };
+    });
+
+    return { date, weekday, slots };
+  });
+
+  // Repetition checks need the whole grid
+  days.forEach((day, dayIndex) => {
+    const previousDay = days[dayIndex - 1];
+
+    day.slots.forEach(slot => {
+      if (!slot.task) return;
+      const taskId = slot.task.id;
+
+      if (day.slots.some(other => other !== slot && other.task?.id === taskId)) {
+        slot.issues.push('repeat_same_day');
+      }
+
+      const previous = previousDay?.slots.find(s => s.slotType === slot.slotType);
+      if (previous?.task?.id === taskId) {
+        slot.issues.push('repeat_previous_day');
+      }
+    });
+  });
+
+  return days;
+}
@@ -0,0 +1,71 @@
+// Version: 1.1 - Structured answer input for tasks with an answer_schema
+// Composite tasks: the inputs a task asks for (e.g. photo + one-line comment)
+// Tasks without an inputs list keep their single media_type input
+
+import type { Task, TaskInput, InputType } from '@/types/models';
+
+export const INPUT_LABELS: Record<InputType, string> = {
+  text: '文字说明',
+  image: '照片',
+  voice: '语音',
+  video: '视频',
+  answer: '回答'
+};
+
+// Shown when a required input is missing on submit
+export const INPUT_MISSING_MESSAGES: Record<InputType, string> = {
+  text: '请输入文字内容',
+  image: '请先选择照片',
+  voice: '请先录制语音',
+  video: '请先选择视频',
+  answer: '请先填写回答'
+};
+
+/**
+ * Inputs a task asks for, in display order (duplicate types keep the first entry)
+ * Without an inputs list, an answer_schema adds a required answer; it stands in for a plain text input
+ * @returns Empty for notification tasks
+ */
+export function getTaskInputs(task: Pick<Task, 'media_type' | 'inputs' | 'answer_schema'>): TaskInput[] {
+  if (task.inputs && task.inputs.length > 0) {
+    const seen = new Set<InputType>();
+    return task.inputs.filter(input => {
+      // An answer input without a schema has nothing to render
+      if (seen.has(input.type) || (input.type === 'answer' && !task.answer_schema)) return false;
+      seen.add(input.type);
+      return true;
+    });
+  }
+
+  if (task.answer_schema) {
+    const answer: TaskInput = { type: 'answer', required: true };
+    return task.media_type === 'text' || task.media_type === 'notification'
+      ? [answer]
+      : [answer, { type: task.media_type, required: true }];
+  }
+
+  return task.media_type === 'notification' ? [] : [{ type: task.media_type, required: true }];
+}
+
+/**
+ * Check if a task asks for more than one input (rendered with a shared submit button)
+ */
+export function isCompositeTask(task: Pick<Task, 'media_type' | 'inputs' | 'answer_schema'>): boolean {
+  return getTaskInputs(task).length > 1;
+}
+
+/**
+ * Find the first input that blocks submission
+ * @param provided - Input types the manager has filled in
+ * @returns Message to show, or null when the check-in can be submitted
+ */
+export function validateTaskInputs(inputs: TaskInput[], provided: Set<InputType>): string | null {
+  const missing = inputs.find(input => input.required && !provided.has(input.type));
+  if (missing) return INPUT_MISSING_MESSAGES[missing.type];
+
+  // All inputs optional: at least one must be filled in
+  if (inputs.length > 0 && !inputs.some(input => provided.has(input.type))) {
+    return '请至少完成一项内容';
+  }
+  return null;
+}
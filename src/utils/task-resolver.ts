@@ -0,0 +1,325 @@
+// Version: 1.5 - Actual-figure tasks scheduled on the days their forecast task is
+// Pure helpers implementing the two-branch task selection described in documents/TASK_SYSTEM_LOGIC.md
+
+import { selectDailyTask, selectDailyTaskWithCooldown, getEarliestReplayStart } from './seeded-random';
+import type { Task, SlotType } from '@/types/models';
+
+/**
+ * Scope of a task relative to a specific restaurant
+ * - store: restaurant_id matches the restaurant
+ * - brand: brand_id matches, restaurant_id is NULL
+ * - global: brand_id and restaurant_id are both NULL
+ */
+export type TaskScope = 'store' | 'brand' | 'global';
+
+/**
+ * Which branch of the selection system produced the task
+ * - paired: actual-figure task, scheduled because its forecast task is on the plan that day
+ */
+export type TaskSource = 'temporary' | 'paired' | 'fixed' | 'routine';
+
+export interface TaskResolutionContext {
+  brandId: number;
+  restaurantId: string;
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0=Sunday, 6=Saturday
+  slotType: SlotType;
+}
+
+export interface RoutineSelectionOptions {
+  cooldownDays: number; // Brand default; a task's own cooldown_days overrides it (0 = may repeat)
+}
+
+// Cooldown replay block = longest cooldown in the pool x this factor; changing it changes every brand's task sequence
+const COOLDOWN_REPLAY_FACTOR = 4;
+
+export interface ResolvedTask {
+  task: Task;
+  scope: TaskScope;
+  source: TaskSource;
+}
+
+// Lower rank wins
+const SCOPE_RANK: Record<TaskScope, number> = {
+  store: 0,
+  brand: 1,
+  global: 2
+};
+
+/**
+ * Get the scope of a task for a restaurant, or null if the task does not apply to it
+ */
+export function getTaskScope(task: Task, brandId: number, restaurantId: string): TaskScope | null {
+  if (task.restaurant_id !== null) {
+    const brandMatches = task.brand_id === null || task.brand_id === brandId;
+    return task.restaurant_id === restaurantId && brandMatches ? 'store' : null;
+  }
+  if (task.brand_id === null) return 'global';
+  return task.brand_id === brandId ? 'brand' : null;
+}
+
+/**
+ * Check if a date falls inside a task's validity window (campaign / seasonal tasks)
+ * Open-ended on either side when valid_from / valid_until is NULL
+ * @param date - Business date YYYY-MM-DD
+ */
+export function isTaskValidOn(task: Task, date: string): boolean {
+  if (task.valid_from && date < task.valid_from) return false;
+  if (task.valid_until && date > task.valid_until) return false;
+  return true;
+}
+
+/**
+ * Pick the most specific task (store > brand > global)
+ * Tasks at the same scope keep their input order
+ */
+export function pickByScope(
+  tasks: Task[],
+  brandId: number,
+  restaurantId: string
+): { task: Task; scope: TaskScope } | null {
+  let best: { task: Task; scope: TaskScope } | null = null;
+
+  for (const task of tasks) {
+    const scope = getTaskScope(task, brandId, restaurantId);
+    if (!scope) continue;
+    if (!best || SCOPE_RANK[scope] < SCOPE_RANK[best.scope]) {
+      best = { task, scope };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Keep only the candidates of the most specific scope present
+ * Used for routine tasks, where brand-level tasks replace the global pool entirely
+ */
+function narrowToTopScope(tasks: Task[], brandId: number, restaurantId: string): { tasks: Task[]; scope: TaskScope } | null {
+  const top = pickByScope(tasks, brandId, restaurantId);
+  if (!top) return null;
+
+  return {
+    tasks: tasks.filter(t => getTaskScope(t, brandId, restaurantId) === top.scope),
+    scope: top.scope
+  };
+}
+
+/**
+ * Branch 2: temporary task override for a date + slot
+ * Priority: store-specific > brand-level > global
+ */
+export function resolveTemporaryTask(tasks: Task[], ctx: TaskResolutionContext): ResolvedTask | null {
+  const candidates = tasks.filter(task =>
+    !task.is_routine &&
+    !task.parent_task_id &&
+    task.is_active &&
+    task.is_announced &&
+    task.execute_date === ctx.date &&
+    task.execute_slot === ctx.slotType
+  );
+
+  const picked = pickByScope(candidates, ctx.brandId, ctx.restaurantId);
+  return picked ? { ...picked, source: 'temporary' } : null;
+}
+
+/**
+ * Weighted pool for a date: applicable to the slot, inside its validity window and not pinned to other weekdays/slots
+ * Actual-figure tasks are left out: they only run with their forecast (see resolveRoutineTask)
+ * Empty when a fixed task takes the slot that day
+ */
+function getWeightedPool(
+  routineTasks: Task[],
+  ctx: TaskResolutionContext,
+  date: string,
+  weekday: number
+): { tasks: Task[]; scope: TaskScope } | null {
+  const validTasks = routineTasks.filter(task => isTaskValidOn(task, date));
+
+  const hasFixed = validTasks.some(task =>
+    (task.fixed_weekdays || []).includes(weekday) &&
+    (task.fixed_slots || []).includes(ctx.slotType) &&
+    getTaskScope(task, ctx.brandId, ctx.restaurantId) !== null
+  );
+  if (hasFixed) return null;
+
+  const pool = validTasks.filter(task => {
+    if (task.forecast_task_id) return false;
+    if (!(task.applicable_slots || []).includes(ctx.slotType)) return false;
+    if (task.fixed_weekdays && task.fixed_weekdays.length > 0 && !task.fixed_weekdays.includes(weekday)) return false;
+    if (task.fixed_slots && task.fixed_slots.length > 0 && !task.fixed_slots.includes(ctx.slotType)) return false;
+    return true;
+  });
+
+  return narrowToTopScope(pool, ctx.brandId, ctx.restaurantId);
+}
+
+/**
+ * Routine tasks are brand-wide; store-specific rows and attached checklist tasks are not part of the pool
+ */
+function getRoutineTasks(tasks: Task[]): Task[] {
+  return tasks.filter(task =>
+    task.is_routine && task.is_active && task.restaurant_id === null && !task.parent_task_id
+  );
+}
+
+/**
+ * Longest cooldown among the weighted candidates for the brand + slot (0 = plain seeded pick)
+ */
+function getMaxCooldownDays(routineTasks: Task[], ctx: TaskResolutionContext, options: RoutineSelectionOptions): number {
+  return routineTasks
+    .filter(task =>
+      !task.forecast_task_id &&
+      (task.applicable_slots || []).includes(ctx.slotType) &&
+      getTaskScope(task, ctx.brandId, ctx.restaurantId) !== null
+    )
+    .reduce((max, task) => Math.max(max, task.cooldown_days ?? options.cooldownDays), 0);
+}
+
+/**
+ * First date brand-wide temporary tasks (any slot, up to and including date) must be passed to
+ * resolveRoutineTask from: they end cooldown replay days and decide where forecast tasks run
+ * A paired slot replays its forecast slot on every replayed day, so the window is two replays deep
+ */
+export function getTemporaryFetchStart(
+  tasks: Task[],
+  date: string,
+  options: RoutineSelectionOptions = { cooldownDays: 0 }
+): string {
+  const routineTasks = getRoutineTasks(tasks);
+  const maxCooldown = routineTasks.reduce((max, task) => Math.max(max, task.cooldown_days ?? options.cooldownDays), 0);
+  if (maxCooldown === 0) return date;
+
+  const lookback = maxCooldown * COOLDOWN_REPLAY_FACTOR;
+  const start = getEarliestReplayStart(date, lookback);
+  return routineTasks.some(task => task.forecast_task_id) ? getEarliestReplayStart(start, lookback) : start;
+}
+
+/**
+ * Check if the forecast task is on the brand-wide plan for the date in a slot other than ctx.slotType
+ * A temporary forecast task counts in its execute_slot, a routine one where it is the slot's pick
+ * Store-specific temporary tasks are left out: the routine result is shared by every store in the brand
+ */
+function isForecastScheduled(
+  tasks: Task[],
+  forecastTaskId: string,
+  ctx: TaskResolutionContext,
+  options: RoutineSelectionOptions
+): boolean {
+  const forecastTask = tasks.find(task => task.id === forecastTaskId);
+  if (!forecastTask) return false;
+
+  const brandTemporary = tasks.filter(task => !task.is_routine && task.restaurant_id === null);
+  const slotTypes = forecastTask.is_routine
+    ? [...(forecastTask.applicable_slots || []), ...(forecastTask.fixed_slots || [])]
+    : [forecastTask.execute_slot];
+
+  return [...new Set(slotTypes)].some(slotType => {
+    if (!slotType || slotType === ctx.slotType) return false;
+    const slotCtx = { ...ctx, slotType };
+    const temporary = resolveTemporaryTask(brandTemporary, slotCtx);
+    if (temporary) return temporary.task.id === forecastTaskId;
+    return selectRoutineTask(tasks, slotCtx, options, false)?.task.id === forecastTaskId;
+  });
+}
+
+/**
+ * Branch 1: brand-level routine task (same result for every store in the brand)
+ * An actual-figure task takes its slot whenever its forecast task is on the plan that day; otherwise
+ * fixed weekday tasks win over weighted random selection; brand tasks win over global ones
+ * Tasks outside their validity window (campaigns, seasons) are not eligible on that date
+ * With a cooldown, a task picked for the brand+slot is not picked again within N days; days taken by a
+ * brand-wide temporary task or a pair count as no pick
+ * @param tasks - Routine pool plus brand-wide temporary tasks from getTemporaryFetchStart up to ctx.date
+ */
+export function resolveRoutineTask(
+  tasks: Task[],
+  ctx: TaskResolutionContext,
+  options: RoutineSelectionOptions = { cooldownDays: 0 }
+): ResolvedTask | null {
+  return selectRoutineTask(tasks, ctx, options, true);
+}
+
+/**
+ * resolveRoutineTask; withPairs is off when resolving a forecast slot, so pairs do not nest
+ * (forecast slots are not expected to hold actual-figure tasks themselves)
+ */
+function selectRoutineTask(
+  tasks: Task[],
+  ctx: TaskResolutionContext,
+  options: RoutineSelectionOptions,
+  withPairs: boolean
+): ResolvedTask | null {
+  const routineTasks = getRoutineTasks(tasks);
+
+  // Actual-figure tasks whose forecast task runs the same day
+  const getPaired = (pairCtx: TaskResolutionContext) => pickByScope(
+    routineTasks.filter(task =>
+      task.forecast_task_id &&
+      isTaskValidOn(task, pairCtx.date) &&
+      (task.applicable_slots || []).includes(pairCtx.slotType) &&
+      isForecastScheduled(tasks, task.forecast_task_id, pairCtx, options)
+    ),
+    pairCtx.brandId,
+    pairCtx.restaurantId
+  );
+
+  const paired = withPairs ? getPaired(ctx) : null;
+  if (paired) {
+    return { ...paired, source: 'paired' };
+  }
+
+  // Fixed routine tasks (fixed_weekdays + fixed_slots both match)
+  const fixedTasks = routineTasks.filter(task =>
+    isTaskValidOn(task, ctx.date) &&
+    (task.fixed_weekdays || []).includes(ctx.weekday) &&
+    (task.fixed_slots || []).includes(ctx.slotType)
+  );
+
+  const fixed = pickByScope(fixedTasks, ctx.brandId, ctx.restaurantId);
+  if (fixed) {
+    return { ...fixed, source: 'fixed' };
+  }
+
+  const narrowed = getWeightedPool(routineTasks, ctx, ctx.date, ctx.weekday);
+  if (!narrowed) return null;
+
+  const withWeight = (pool: Task[]) => pool.map(t => ({ ...t, weight: t.weight || 100 }));
+  const getCooldownDays = (task: Task) => task.cooldown_days ?? options.cooldownDays;
+  const maxCooldown = getMaxCooldownDays(routineTasks, ctx, options);
+
+  // Store-specific overrides are left out: the routine sequence is shared by every store in the brand
+  const brandOverrides = tasks.filter(task => !task.is_routine && task.restaurant_id === null);
+  const isOverridden = (date: string, weekday: number) =>
+    date !== ctx.date && (
+      resolveTemporaryTask(brandOverrides, { ...ctx, date }) !== null ||
+      (withPairs && getPaired({ ...ctx, date, weekday }) !== null)
+    );
+
+  // Use seeded random to ensure all clients get the same task
+  const selected = maxCooldown > 0
+    ? selectDailyTaskWithCooldown(
+      (date, weekday) => isOverridden(date, weekday)
+        ? []
+        : withWeight(getWeightedPool(routineTasks, ctx, date, weekday)?.tasks || []),
+      ctx.date,
+      ctx.brandId,
+      ctx.slotType,
+      getCooldownDays,
+      maxCooldown * COOLDOWN_REPLAY_FACTOR
+    )
+    : selectDailyTask(withWeight(narrowed.tasks), ctx.date, ctx.brandId, ctx.slotType);
+
+  return selected ? { task: selected, scope: narrowed.scope, source: 'routine' } : null;
+}
+
+/**
+ * Full resolution: temporary override first, then the brand-level routine task
+ */
+export function resolveTask(
+  tasks: Task[],
+  ctx: TaskResolutionContext,
+  options?: RoutineSelectionOptions
+): ResolvedTask | null {
+  return resolveTemporaryTask(tasks, ctx) || resolveRoutineTask(tasks, ctx, options);
+}
@@ -0,0 +1,80 @@
+// Version: 1.2 - Previous slot carries the business day it belongs to
+// Slots come entirely from kbd_time_slot_config, so a brand can add breakfast or late-night (宵夜) slots
+
+import { offsetFromStart, hasWindowEnded } from './time-window';
+import type { TimeSlotConfig, SlotType } from '@/types/models';
+
+// Labels for the original four slots, used when a config row has no display_name
+const DEFAULT_SLOT_LABELS: Record<string, string> = {
+  lunch_open: '午市开店',
+  lunch_close: '午市闭店',
+  dinner_open: '晚市开店',
+  dinner_close: '晚市闭店'
+};
+
+/**
+ * Resolve the slot configs that apply to one restaurant
+ * A restaurant row replaces the brand row of the same slot_type (e.g. mall stores opening later);
+ * slots without a restaurant row keep the brand default. An inactive restaurant row disables the slot for that store
+ * @param configs - Brand rows (restaurant_id NULL) plus this restaurant's rows
+ */
+export function resolveSlotConfigs(configs: TimeSlotConfig[], restaurantId: string | null): TimeSlotConfig[] {
+  const bySlot = new Map<SlotType, TimeSlotConfig>();
+
+  configs
+    .filter(c => c.restaurant_id === null)
+    .forEach(c => bySlot.set(c.slot_type, c));
+
+  if (restaurantId) {
+    configs
+      .filter(c => c.restaurant_id === restaurantId)
+      .forEach(c => bySlot.set(c.slot_type, c));
+  }
+
+  return [...bySlot.values()].filter(c => c.is_active);
+}
+
+/**
+ * Sort active slot configs in business-day order
+ * sort_order wins when set; otherwise slots are ordered by window start counted from the day cutoff,
+ * so a 00:30 late-night slot comes after dinner instead of before breakfast
+ * @param dayCutoff - Business day cutoff (HH:MM:SS)
+ */
+export function sortSlotConfigs(configs: TimeSlotConfig[], dayCutoff: string): TimeSlotConfig[] {
+  return configs
+    .filter(c => c.is_active)
+    .sort((a, b) => {
+      const orderA = a.sort_order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.sort_order ?? Number.MAX_SAFE_INTEGER;
+      if (orderA !== orderB) return orderA - orderB;
+      return offsetFromStart(a.window_start, dayCutoff) - offsetFromStart(b.window_start, dayCutoff);
+    });
+}
+
+/**
+ * Get display label for a slot (config display_name > built-in label > slot code)
+ */
+export function getSlotLabel(slotType: SlotType, configs: TimeSlotConfig[]): string {
+  const config = configs.find(c => c.slot_type === slotType);
+  return config?.display_name || DEFAULT_SLOT_LABELS[slotType] || slotType;
+}
+
+export interface PreviousSlot {
+  slotType: SlotType;
+  previousDay: boolean; // Slot of the previous business day (nothing has closed yet today)
+}
+
+/**
+ * Get the most recent slot whose window has closed
+ * Before the first slot of the business day closes, falls back to the previous business day's last slot
+ * @param sortedConfigs - Configs in business-day order (see sortSlotConfigs)
+ * @returns Slot and day, or null when the brand has no slots configured
+ */
+export function getPreviousSlot(sortedConfigs: TimeSlotConfig[], time: string, dayCutoff: string): PreviousSlot | null {
+  const ended = sortedConfigs.filter(c => hasWindowEnded(c, time, dayCutoff));
+  const endedToday = ended[ended.length - 1];
+  if (endedToday) return { slotType: endedToday.slot_type, previousDay: false };
+
+  const lastSlot = sortedConfigs[sortedConfigs.length - 1];
+  return lastSlot ? { slotType: lastSlot.slot_type, previousDay: true } : null;
+}
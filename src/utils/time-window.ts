@@ -0,0 +1,68 @@
+// Version: 1.2 - Export offsetFromStart for business-day slot ordering
+// Shared by KBDService, TimeScheduler and CheckInModule so every module agrees on window boundaries
+
+import type { TimeSlotConfig, PunctualityStatus } from '@/types/models';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Convert HH:MM or HH:MM:SS to seconds since midnight
+ */
+export function toSeconds(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return (hours ?? 0) * 3600 + (minutes ?? 0) * 60 + (seconds ?? 0);
+}
+
+/**
+ * Seconds elapsed since window start (wraps past midnight)
+ */
+export function offsetFromStart(time: string, start: string): number {
+  return (toSeconds(time) - toSeconds(start) + SECONDS_PER_DAY) % SECONDS_PER_DAY;
+}
+
+/**
+ * Check if time is within [start, end] (handles midnight crossing, e.g. 21:30-01:00)
+ */
+export function isTimeInWindow(time: string, start: string, end: string): boolean {
+  return offsetFromStart(time, start) <= offsetFromStart(end, start);
+}
+
+/**
+ * Get on-time deadline for a slot (defaults to window end)
+ */
+export function getOnTimeDeadline(config: TimeSlotConfig): string {
+  return config.on_time_deadline || config.window_end;
+}
+
+/**
+ * Evaluate punctuality of a check-in at the given brand-local time
+ * - on_time: from window start until deadline + grace period
+ * - late: after deadline + grace, but still inside the window
+ * - outside_window: anywhere else
+ */
+export function evaluatePunctuality(config: TimeSlotConfig, time: string): PunctualityStatus {
+  const elapsed = offsetFromStart(time, config.window_start);
+  const windowLength = offsetFromStart(config.window_end, config.window_start);
+
+  if (elapsed > windowLength) {
+    return 'outside_window';
+  }
+
+  const graceSeconds = (config.grace_minutes || 0) * 60;
+  const onTimeUntil = offsetFromStart(getOnTimeDeadline(config), config.window_start) + graceSeconds;
+
+  return elapsed <= onTimeUntil ? 'on_time' : 'late';
+}
+
+/**
+ * Check if a slot's window has already closed on the current business day
+ * Times are compared from the day cutoff, so a 21:30-01:00 window is still open at 00:30
+ * @param dayCutoff - Business day cutoff (HH:MM:SS)
+ */
+export function hasWindowEnded(config: TimeSlotConfig, time: string, dayCutoff: string): boolean {
+  const elapsedToday = offsetFromStart(time, dayCutoff);
+  const windowStart = offsetFromStart(config.window_start, dayCutoff);
+  const windowLength = offsetFromStart(config.window_end, config.window_start);
+
+  return elapsedToday > windowStart + windowLength;
+}
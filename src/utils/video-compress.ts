@@ -0,0 +1,213 @@
+// Version: 1.1 - Re-encoding can be aborted
+// Plays the clip into a canvas and records the canvas (plus the clip's audio) with MediaRecorder
+// at a bitrate computed to fit the size limit. Runs in real time, so clips are trimmed first.
+
+export interface VideoCompressOptions {
+  maxBytes: number;
+  maxDurationSec: number;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal; // Stops encoding; compressVideo then rejects
+}
+
+// Longest side of the re-encoded video; lowered when the bitrate budget is tight
+const MAX_DIMENSION = 720;
+const LOW_BITRATE_MAX_DIMENSION = 480;
+const LOW_BITRATE_THRESHOLD = 800_000;
+const MAX_VIDEO_BITRATE = 2_500_000;
+const AUDIO_BITRATE = 64_000;
+// Headroom for container overhead and encoder overshoot
+const SIZE_SAFETY_FACTOR = 0.85;
+
+// First supported wins: MP4 plays everywhere (Safari, Chrome 126+), WebM is the Chrome/Android fallback
+const MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+/**
+ * Pick a MediaRecorder container/codec this browser can record
+ * @returns MIME type, or null when re-encoding is not possible
+ */
+function pickMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') {
+    return null;
+  }
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Check if this browser can re-encode video (canvas capture + MediaRecorder)
+ */
+export function canCompressVideo(): boolean {
+  return pickMimeType() !== null;
+}
+
+/**
+ * Read a video's duration in seconds without playing it
+ */
+export function getVideoDuration(file: File): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to read video'));
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * Re-encode a video to fit maxBytes, trimmed to maxDurationSec
+ * @returns Compressed file (MP4 or WebM, depending on browser support)
+ */
+export async function compressVideo(file: File, options: VideoCompressOptions): Promise<File> {
+  const { signal } = options;
+  const mimeType = pickMimeType();
+  if (!mimeType) {
+    throw new Error('Video compression not supported');
+  }
+  if (signal?.aborted) {
+    throw new Error('Video compression cancelled');
+  }
+
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  video.src = url;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Failed to load video'));
+      signal?.addEventListener('abort', () => reject(new Error('Video compression cancelled')), { once: true });
+    });
+
+    const duration = Math.min(
+      Number.isFinite(video.duration) ? video.duration : options.maxDurationSec,
+      options.maxDurationSec
+    );
+
+    // Bitrate budget from the size limit; resolution follows the budget
+    const videoBitrate = Math.min(
+      MAX_VIDEO_BITRATE,
+      Math.floor((options.maxBytes * 8 * SIZE_SAFETY_FACTOR) / duration) - AUDIO_BITRATE
+    );
+    if (videoBitrate <= 0) {
+      throw new Error('Video too long to compress');
+    }
+
+    const maxDimension = videoBitrate < LOW_BITRATE_THRESHOLD ? LOW_BITRATE_MAX_DIMENSION : MAX_DIMENSION;
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    // Encoders want even dimensions
+    const width = Math.round((video.videoWidth * scale) / 2) * 2;
+    const height = Math.round((video.videoHeight * scale) / 2) * 2;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas not supported');
+    }
+
+    const stream = canvas.captureStream(30);
+
+    // Route the clip's audio into the recording (not to the speaker)
+    let audioContext: AudioContext | null = null;
+    try {
+      audioContext = new AudioContext();
+      const source = audioContext.createMediaElementSource(video);
+      const destination = audioContext.createMediaStreamDestination();
+      source.connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    } catch (error) {
+      // No audio track: keep the video only
+      audioContext = null;
+    }
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: videoBitrate,
+      audioBitsPerSecond: AUDIO_BITRATE
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // Draw each frame until the end of the clip or the trim point
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      video.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    const drawFrame = () => {
+      if (finished) return;
+      ctx.drawImage(video, 0, 0, width, height);
+      options.onProgress?.(Math.min(99, Math.floor((video.currentTime / duration) * 100)));
+
+      if (video.currentTime >= duration || video.ended) {
+        finish();
+        return;
+      }
+      requestAnimationFrame(drawFrame);
+    };
+
+    video.onended = () => finish();
+    signal?.addEventListener('abort', () => finish(), { once: true });
+
+    recorder.start(1000);
+    try {
+      await video.play();
+    } catch (error) {
+      // Autoplay with sound blocked: record without audio
+      video.muted = true;
+      await video.play();
+    }
+    drawFrame();
+
+    await stopped;
+    await audioContext?.close();
+    stream.getTracks().forEach(track => track.stop());
+
+    if (signal?.aborted) {
+      throw new Error('Video compression cancelled');
+    }
+
+    const blob = new Blob(chunks, { type: mimeType.split(';')[0] });
+    if (blob.size === 0) {
+      throw new Error('Video compression produced no data');
+    }
+    if (blob.size > options.maxBytes) {
+      throw new Error('Compressed video still too large');
+    }
+
+    options.onProgress?.(100);
+    const ext = blob.type === 'video/mp4' ? 'mp4' : 'webm';
+    return new File([blob], file.name.replace(/\.[^.]+$/, `.${ext}`), {
+      type: blob.type,
+      lastModified: Date.now()
+    });
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
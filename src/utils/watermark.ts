@@ -0,0 +1,71 @@
+// Version: 1.0 - Burn-in watermark (store, slot, time, employee) for check-in photos
+// Drawn onto the compression canvas, so the uploaded JPEG is the only copy and it always carries the context
+
+import type { WatermarkStyle, WatermarkPosition } from '@/types/models';
+
+export interface ImageWatermark {
+  lines: string[];
+  style: WatermarkStyle;
+}
+
+const DEFAULT_POSITION: WatermarkPosition = 'bottom-left';
+const DEFAULT_TEXT_COLOR = '#ffffff';
+const DEFAULT_BACKGROUND = 'rgba(0, 0, 0, 0.45)';
+// Text height relative to the shorter image side; keeps the watermark readable after downscaling
+const DEFAULT_FONT_SCALE = 0.032;
+const MIN_FONT_PX = 12;
+
+/**
+ * Draw the watermark onto a canvas that already holds the image
+ * Must be called again whenever the image is redrawn (e.g. when compression shrinks the canvas)
+ */
+export function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, watermark: ImageWatermark): void {
+  const lines = watermark.lines.filter(line => line.trim());
+  if (lines.length === 0) return;
+
+  const { style } = watermark;
+  const position = style.position ?? DEFAULT_POSITION;
+  const fontSize = Math.max(MIN_FONT_PX, Math.round(Math.min(width, height) * (style.font_scale ?? DEFAULT_FONT_SCALE)));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const padding = Math.round(fontSize * 0.6);
+  const margin = Math.round(fontSize * 0.8);
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px -apple-system, BlinkMacSystemFont, "PingFang SC", "Microsoft YaHei", sans-serif`;
+  ctx.textBaseline = 'top';
+
+  // Long store names are cut rather than running off the image
+  const maxTextWidth = width - 2 * (margin + padding);
+  const fitted = lines.map(line => fitText(ctx, line, maxTextWidth));
+  const textWidth = Math.max(...fitted.map(line => ctx.measureText(line).width));
+
+  const boxWidth = Math.ceil(textWidth) + padding * 2;
+  const boxHeight = lineHeight * fitted.length + padding * 2 - (lineHeight - fontSize);
+  const x = position.endsWith('right') ? width - margin - boxWidth : margin;
+  const y = position.startsWith('bottom') ? height - margin - boxHeight : margin;
+
+  ctx.fillStyle = style.background ?? DEFAULT_BACKGROUND;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+
+  ctx.fillStyle = style.text_color ?? DEFAULT_TEXT_COLOR;
+  ctx.textAlign = position.endsWith('right') ? 'right' : 'left';
+  const textX = position.endsWith('right') ? x + boxWidth - padding : x + padding;
+  fitted.forEach((line, i) => {
+    ctx.fillText(line, textX, y + padding + i * lineHeight);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Cut a line with an ellipsis until it fits maxWidth
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+
+  let cut = text;
+  while (cut.length > 1 && ctx.measureText(`${cut}…`).width > maxWidth) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut}…`;
+}